@@ -4,86 +4,83 @@
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Head from "next/head";
-import Cookies from "js-cookie";
+import BookingService from "../../../services/bookingService";
+import { BookingDraftStore, describeDraft } from "../../../utils/bookingDraft";
+import { startBookingPayment } from "../../../utils/payments";
+import TransactionPinModal from "../../components/TransactionPinModal";
+
+// How long to wait for the payment webhook before showing "pending"
+const STATUS_POLL_INTERVAL = 3000;
+const STATUS_POLL_ATTEMPTS = 10;
+
+// Server payment states mapped to what this page displays
+const PAYMENT_STATUS_DISPLAY = {
+  paid: "success",
+  failed: "failed",
+  refunded: "failed",
+  pending: "pending",
+};
 
 // Create a separate component that uses searchParams
 function BookingVerification({
-  bookingData,
-  setBookingData,
+  draft,
+  checkCount,
   setPaymentStatus,
   setLoading,
 }) {
   const searchParams = useSearchParams();
 
   useEffect(() => {
-    const verifyPayment = async () => {
+    // The webhook is the source of truth; poll until it has been recorded
+    let cancelled = false;
+    let timeoutId;
+
+    const checkPaymentStatus = async (reference, attempt = 1) => {
       try {
-        // Check if we have a reference from Paystack redirect
-        const reference = searchParams.get("reference");
+        const response = await BookingService.getPaymentStatus(reference);
+        if (cancelled) return;
 
-        // If no reference in URL but booking shows paid, assume it's already verified
-        if (!reference) {
-          setPaymentStatus(
-            bookingData.paymentStatus === "paid" ? "success" : "pending"
-          );
-          setLoading(false);
-          return;
+        const status =
+          PAYMENT_STATUS_DISPLAY[response.data?.status] || "pending";
+        setPaymentStatus(status);
+        setLoading(false);
+
+        // Paid: the draft is done with, so it can't be paid for again. The
+        // page keeps its own copy for display.
+        if (status === "success") {
+          BookingDraftStore.clear();
         }
 
-        // Verify payment status with backend
-        await verifyPaymentWithBackend(reference, bookingData);
+        if (status === "pending" && attempt < STATUS_POLL_ATTEMPTS) {
+          timeoutId = setTimeout(
+            () => checkPaymentStatus(reference, attempt + 1),
+            STATUS_POLL_INTERVAL
+          );
+        }
       } catch (error) {
-        console.error("Error verifying payment:", error);
+        if (cancelled) return;
+        console.error("Error checking payment status:", error);
         setPaymentStatus("error");
         setLoading(false);
       }
     };
 
-    if (bookingData) {
-      verifyPayment();
-    }
-  }, [searchParams, bookingData, setPaymentStatus, setLoading]);
-
-  const verifyPaymentWithBackend = async (reference, parsedBooking) => {
-    try {
-      const authToken = Cookies.get("auth_token");
-
-      const response = await fetch(
-        `https://klinner.onrender.com/api/v1/payments/verify`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${authToken}`,
-            "Content-Type": "application/json",
-          },
-          credentials: "include",
-          body: JSON.stringify({ reference }), // << send reference inside the body
-        }
-      );
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        // Update payment status
-        const updatedBooking = {
-          ...parsedBooking,
-          paymentStatus: "paid",
-        };
+    // Prefer the reference the provider redirected back with
+    const reference =
+      searchParams.get("reference") || draft?.booking?.paymentReference;
 
-        localStorage.setItem("bookingData", JSON.stringify(updatedBooking));
-        setBookingData(updatedBooking);
-        setPaymentStatus("success");
-      } else {
-        setPaymentStatus("failed");
-      }
-    } catch (error) {
-      console.error("Backend verification failed:", error);
-      throw error;
-    } finally {
+    if (reference) {
+      checkPaymentStatus(reference);
+    } else if (draft) {
+      setPaymentStatus("pending");
       setLoading(false);
     }
-  };
 
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchParams, draft, checkCount, setPaymentStatus, setLoading]);
 
   return null; // This component just handles the effect, no rendering
 }
@@ -126,7 +123,7 @@ function NoBookingFound({ router }) {
           We couldn't find your booking information. Let's start over.
         </p>
         <button
-          onClick={() => router.push("/house-cleaning")}
+          onClick={() => router.push("/")}
           className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
         >
           Start New Booking
@@ -201,12 +198,11 @@ function StatusIcon({ status }) {
 }
 
 // Component for booking details
-function BookingDetails({
-  bookingData,
-  paymentStatus,
-  formatDate,
-  formatTime,
-}) {
+function BookingDetails({ draft, paymentStatus, formatDate, formatTime }) {
+  // The accepted server quote that was charged, not a client-side estimate
+  const amount = draft.booking?.amount;
+  const { serviceCategory, items } = describeDraft(draft);
+
   return (
     <div className="bg-gray-50 rounded-lg p-6 text-left mb-8">
       <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -216,28 +212,34 @@ function BookingDetails({
         <div className="flex justify-between">
           <span className="text-gray-600">Service:</span>
           <span className="font-medium text-gray-900">
-            {bookingData.serviceCategory}
+            {serviceCategory}
           </span>
         </div>
         <div className="flex justify-between">
           <span className="text-gray-600">Date & Time:</span>
           <span className="font-medium text-gray-900">
-            {formatDate(bookingData.bookingDate)} at{" "}
-            {formatTime(bookingData.bookingTime)}
+            {formatDate(draft.schedule?.bookingDate)} at{" "}
+            {formatTime(draft.schedule?.bookingTime)}
           </span>
         </div>
         <div className="flex justify-between">
-          <span className="text-gray-600">Areas:</span>
-          <span className="font-medium text-gray-900">
-            {bookingData.areas?.length || 0} areas
-          </span>
+          <span className="text-gray-600">Items:</span>
+          <span className="font-medium text-gray-900">{items.length} items</span>
         </div>
         <div className="flex justify-between">
           <span className="text-gray-600">Location:</span>
           <span className="font-medium text-gray-900">
-            {bookingData.location}
+            {draft.schedule?.location}
           </span>
         </div>
+        {amount !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Amount:</span>
+            <span className="font-medium text-gray-900">
+              ₦{amount.toLocaleString()}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-gray-600">Payment Status:</span>
           <span
@@ -259,15 +261,15 @@ function BookingDetails({
         <div className="flex justify-between pt-2 border-t">
           <span className="text-gray-800 font-semibold">Booking ID:</span>
           <span className="font-medium text-purple-600">
-            {bookingData.id ||
+            {draft.booking?.id ||
               `#BK${Math.floor(Math.random() * 900000) + 100000}`}
           </span>
         </div>
-        {bookingData.paymentReference && (
+        {draft.booking?.paymentReference && (
           <div className="flex justify-between">
             <span className="text-gray-600">Payment Reference:</span>
             <span className="font-medium text-gray-900">
-              {bookingData.paymentReference}
+              {draft.booking.paymentReference}
             </span>
           </div>
         )}
@@ -277,15 +279,31 @@ function BookingDetails({
 }
 
 // Component for action buttons
-function ActionButtons({ paymentStatus, router }) {
+function ActionButtons({
+  paymentStatus,
+  router,
+  onRetryPayment,
+  onCheckAgain,
+  retrying,
+}) {
   return (
     <div className="flex flex-col sm:flex-row gap-4 justify-center">
-      {paymentStatus === "failed" && (
+      {/* An unknown status may still be paid, so it is checked, not retried */}
+      {paymentStatus === "error" && (
         <button
-          onClick={() => router.push("/booking-summary")}
+          onClick={onCheckAgain}
           className="py-3 px-6 border border-purple-600 text-purple-600 rounded-xl text-lg font-medium hover:bg-purple-50 transition-colors"
         >
-          Try Again
+          Check Again
+        </button>
+      )}
+      {paymentStatus === "failed" && (
+        <button
+          onClick={onRetryPayment}
+          disabled={retrying}
+          className="py-3 px-6 border border-purple-600 text-purple-600 rounded-xl text-lg font-medium hover:bg-purple-50 transition-colors disabled:opacity-50"
+        >
+          {retrying ? "Starting payment..." : "Retry Payment"}
         </button>
       )}
       <button
@@ -294,9 +312,9 @@ function ActionButtons({ paymentStatus, router }) {
       >
         Return to Home
       </button>
-      {paymentStatus === "success" && (
+      {paymentStatus !== "checking" && (
         <button
-          onClick={() => router.push("/bookings")}
+          onClick={() => router.push("/booking/bookings")}
           className="py-3 px-6 border border-purple-600 text-purple-600 rounded-xl text-lg font-medium hover:bg-purple-50 transition-colors"
         >
           View My Bookings
@@ -313,6 +331,8 @@ function getStatusTitle(status) {
       return "Booking Confirmed!";
     case "failed":
       return "Payment Failed";
+    case "error":
+      return "We Couldn't Check Your Payment";
     default:
       return "Booking Status Pending";
   }
@@ -324,6 +344,8 @@ function getStatusMessage(status) {
       return "Your cleaning service has been successfully booked and paid for";
     case "failed":
       return "We couldn't complete your payment. Please try again.";
+    case "error":
+      return "Your booking is saved, but we couldn't confirm whether it was paid. Check again before paying, or finish it later from My Bookings.";
     default:
       return "Your booking has been received but payment status is pending.";
   }
@@ -331,22 +353,24 @@ function getStatusMessage(status) {
 
 export default function BookingConfirmation() {
   const router = useRouter();
-  const [bookingData, setBookingData] = useState(null);
+  const [draft, setDraft] = useState(null);
   const [paymentStatus, setPaymentStatus] = useState("checking");
   const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [checkCount, setCheckCount] = useState(0);
 
   useEffect(() => {
-    // Load booking data from localStorage
+    // Load the booking draft created during checkout
     const loadBookingData = () => {
       try {
-        const confirmedBooking = localStorage.getItem("bookingData");
-        if (!confirmedBooking) {
+        const storedDraft = BookingDraftStore.load();
+        if (!storedDraft?.booking) {
           setLoading(false);
           return;
         }
 
-        const parsedBooking = JSON.parse(confirmedBooking);
-        setBookingData(parsedBooking);
+        setDraft(storedDraft);
       } catch (error) {
         console.error("Error loading booking data:", error);
         setLoading(false);
@@ -356,6 +380,57 @@ export default function BookingConfirmation() {
     loadBookingData();
   }, []);
 
+  // Ask the server again rather than charge while the status is unknown
+  const handleCheckAgain = () => {
+    setPaymentStatus("checking");
+    setCheckCount((count) => count + 1);
+  };
+
+  // A retried payment is confirmed with the transaction PIN like the first.
+  // Only a payment the server reports as failed is charged again.
+  const handleRetryPayment = () => {
+    if (retrying || paymentStatus !== "failed") return;
+    // Only the amount the server quoted may be charged
+    if (draft.booking.amount === undefined) {
+      alert(
+        "We couldn't find the amount for this booking. Please complete the payment from My Bookings."
+      );
+      router.push("/booking/bookings");
+      return;
+    }
+    setShowPinModal(true);
+  };
+
+  // Start a new payment attempt for the same booking instead of rebooking
+  const retryPayment = async (pinToken: string) => {
+    setShowPinModal(false);
+    setRetrying(true);
+
+    try {
+      const { provider, session } = await startBookingPayment({
+        bookingId: draft.booking.id,
+        amount: draft.booking.amount,
+        provider: draft.booking.paymentProvider,
+        pinToken,
+      });
+
+      BookingDraftStore.update({
+        booking: {
+          ...draft.booking,
+          paymentStatus: "pending",
+          paymentReference: session.reference,
+          paymentProvider: session.provider,
+        },
+      });
+
+      provider.redirect(session);
+    } catch (error) {
+      console.error("Error retrying payment:", error);
+      alert(`Unable to start payment: ${error.message}`);
+      setRetrying(false);
+    }
+  };
+
   const formatDate = (dateString) => {
     if (!dateString) return "";
     const date = new Date(dateString);
@@ -379,11 +454,29 @@ export default function BookingConfirmation() {
     return `${hour - 12}:${minutes} PM`;
   };
 
+  // Wrap the component that uses searchParams in Suspense. It stays mounted
+  // behind the loading screen, since it is what clears it.
+  const verification = draft && (
+    <Suspense fallback={null}>
+      <BookingVerification
+        draft={draft}
+        checkCount={checkCount}
+        setPaymentStatus={setPaymentStatus}
+        setLoading={setLoading}
+      />
+    </Suspense>
+  );
+
   if (loading) {
-    return <LoadingScreen />;
+    return (
+      <>
+        <LoadingScreen />
+        {verification}
+      </>
+    );
   }
 
-  if (!bookingData) {
+  if (!draft) {
     return <NoBookingFound router={router} />;
   }
 
@@ -412,25 +505,29 @@ export default function BookingConfirmation() {
             </p>
 
             <BookingDetails
-              bookingData={bookingData}
+              draft={draft}
               paymentStatus={paymentStatus}
               formatDate={formatDate}
               formatTime={formatTime}
             />
 
-            <ActionButtons paymentStatus={paymentStatus} router={router} />
+            <ActionButtons
+              paymentStatus={paymentStatus}
+              router={router}
+              onRetryPayment={handleRetryPayment}
+              onCheckAgain={handleCheckAgain}
+              retrying={retrying}
+            />
           </div>
         </div>
 
-        {/* Wrap the component that uses searchParams in Suspense */}
-        <Suspense fallback={null}>
-          <BookingVerification
-            bookingData={bookingData}
-            setBookingData={setBookingData}
-            setPaymentStatus={setPaymentStatus}
-            setLoading={setLoading}
-          />
-        </Suspense>
+        <TransactionPinModal
+          isOpen={showPinModal}
+          onClose={() => setShowPinModal(false)}
+          onVerified={retryPayment}
+        />
+
+        {verification}
       </div>
     </>
   );
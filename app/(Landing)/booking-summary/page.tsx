@@ -1,26 +1,59 @@
 // pages/booking-summary.js
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Head from "next/head";
-import Cookies from "js-cookie"; // Make sure to install this package: npm install js-cookie
+import { useAuth } from "../../../context/AuthContext";
+import BookingService from "../../../services/bookingService";
+import {
+  BookingDraft,
+  BookingDraftStore,
+  DraftBooking,
+  describeDraft,
+  SERVICE_ROUTES,
+} from "../../../utils/bookingDraft";
+import {
+  calculateServicePrice,
+  isQuoteExpired,
+  reconcileQuote,
+  ServerQuote,
+} from "../../../utils/pricing";
+import {
+  buildSeriesRecurrence,
+  formatOccurrenceDate,
+  RECURRENCE_LABELS,
+} from "../../../utils/bookingSeries";
+import {
+  getPaymentProvider,
+  startBookingPayment,
+} from "../../../utils/payments";
+import TransactionPinModal from "../../components/TransactionPinModal";
 
 export default function BookingSummary() {
   const router = useRouter();
-  const [bookingData, setBookingData] = useState(null);
+  const { userId, isAuthenticated } = useAuth();
+  const [draft, setDraft] = useState<BookingDraft | null>(null);
   const [loading, setLoading] = useState(true);
+  const [quote, setQuote] = useState<ServerQuote | null>(null);
+  const [quoteStatus, setQuoteStatus] = useState("loading");
+  const [quoteAccepted, setQuoteAccepted] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  // Blocks a second click while the first booking request is in flight
+  const submittingRef = useRef(false);
 
   useEffect(() => {
-    // Load booking data from localStorage
+    // Load the booking draft shared by every service page
     const loadBookingData = () => {
       try {
-        const storedBookingData = localStorage.getItem("bookingData");
-        if (storedBookingData) {
-          setBookingData(JSON.parse(storedBookingData));
+        const storedDraft = BookingDraftStore.load();
+        if (storedDraft?.schedule) {
+          setDraft(storedDraft);
         } else {
-          // If no booking data, redirect back to cleaning page
-          router.push("/house-cleaning");
+          // Without a schedule, send the customer back to finish the booking
+          router.push(
+            storedDraft ? SERVICE_ROUTES[storedDraft.serviceType] : "/"
+          );
         }
       } catch (error) {
         console.error("Error loading booking data:", error);
@@ -32,6 +65,41 @@ export default function BookingSummary() {
     loadBookingData();
   }, [router]);
 
+  // Ask the server for the authoritative price of this booking
+  const fetchQuote = async () => {
+    setQuoteStatus("loading");
+    setQuoteAccepted(false);
+
+    try {
+      const response = await BookingService.getQuote(draft.priceInput);
+      if (response.success && response.data) {
+        setQuote(response.data);
+        setQuoteStatus("ready");
+      } else {
+        setQuoteStatus("error");
+      }
+    } catch (error) {
+      console.error("Error fetching quote:", error);
+      setQuoteStatus("error");
+    }
+  };
+
+  useEffect(() => {
+    if (draft?.priceInput) {
+      fetchQuote();
+    }
+  }, [draft]);
+
+  // An expired quote would be refused, so fetch a new one for the customer
+  // to review instead of paying
+  const refreshExpiredQuote = () => {
+    if (!isQuoteExpired(quote)) return false;
+
+    alert("This price has expired. Please review the updated price.");
+    fetchQuote();
+    return true;
+  };
+
   const formatDate = (dateString) => {
     if (!dateString) return "";
     const date = new Date(dateString);
@@ -60,91 +128,149 @@ export default function BookingSummary() {
     }
   };
 
-  const handleConfirmBooking = async () => {
-    setLoading(true);
+  // Check the booking can be paid for, then ask for the transaction PIN
+  const handleConfirmBooking = () => {
+    if (submittingRef.current) return;
 
-    try {
-      // Retrieve the auth token from cookies
-      const authToken = Cookies.get("auth_token");
+    if (!isAuthenticated()) {
+      alert("Authentication required. Please log in again.");
+      return;
+    }
 
-      if (!authToken) {
-        alert("Authentication required. Please log in again.");
-        setLoading(false);
-        return;
-      }
+    if (!userId) {
+      alert("User ID not found. Please log in again.");
+      return;
+    }
 
-      const userData = JSON.parse(localStorage.getItem("user_data") || "{}");
-      const userId = userData.user_id;
+    // Charge the server quote, and only once the customer has seen it
+    if (quoteStatus !== "ready" || !quote || quote.finalPrice <= 0) {
+      alert("We couldn't price this booking. Please try again.");
+      return;
+    }
+    if (refreshExpiredQuote()) return;
+    const { matches } = reconcileQuote(
+      calculateServicePrice(draft.priceInput),
+      quote
+    );
+    if (!matches && !quoteAccepted) {
+      alert("Please review the updated price before paying.");
+      return;
+    }
 
-      if (!userId) {
-        alert("User ID not found. Please log in again.");
-        setLoading(false);
+    setShowPinModal(true);
+  };
+
+  // Whether the API has recorded the draft's booking as paid
+  const isBookingPaid = async (booking: DraftBooking) => {
+    if (booking.paymentStatus === "paid") return true;
+    if (!booking.paymentReference) return false;
+
+    const response = await BookingService.getPaymentStatus(
+      booking.paymentReference
+    );
+    return response.data?.status === "paid";
+  };
+
+  // Runs once the PIN has been verified; the API needs its pinToken to book
+  // and to start the payment
+  const submitBooking = async (pinToken: string) => {
+    setShowPinModal(false);
+    if (submittingRef.current) return;
+    // The quote may have lapsed while the PIN dialog was open
+    if (refreshExpiredQuote()) return;
+    submittingRef.current = true;
+    setLoading(true);
+
+    try {
+      // This draft already has a booking; pay for it instead of rebooking
+      if (draft.booking) {
+        // Unless it has been paid already, e.g. the webhook landed after the
+        // customer left the confirmation page
+        if (await isBookingPaid(draft.booking)) {
+          BookingDraftStore.clear();
+          alert("This booking has already been paid for.");
+          router.push("/booking/bookings");
+          return;
+        }
+
+        const { provider, session } = await startBookingPayment({
+          bookingId: draft.booking.id,
+          amount: quote.finalPrice,
+          provider: draft.booking.paymentProvider,
+          pinToken,
+        });
+
+        BookingDraftStore.update({
+          booking: {
+            ...draft.booking,
+            paymentStatus: "pending",
+            paymentReference: session.reference,
+            paymentProvider: session.provider,
+            amount: quote.finalPrice,
+          },
+        });
+        provider.redirect(session);
         return;
       }
 
-      // Calculate service rate
-      const basePrice = 5000;
-      const pricePerItem = 2000;
-      const totalItems = bookingData.areas?.length || 0;
-      const serviceRate = ((basePrice + totalItems * pricePerItem) / 100).toFixed(2);
+      const serviceRate = quote.finalPrice.toFixed(2);
 
+      const { serviceName, serviceCategory, items } = describeDraft(draft);
       const serviceData = {
         user_id: userId,
-        serviceName: bookingData.serviceName || "Cleaning",
-        serviceCategory: bookingData.serviceCategory || "Standard Home Cleaning",
-        areas: bookingData.areas || [],
-        bookingDate: bookingData.bookingDate,
-        bookingTime: bookingData.bookingTime,
-        location: bookingData.location,
+        serviceType: draft.serviceType,
+        serviceName,
+        serviceCategory,
+        areas: items,
+        priceInput: draft.priceInput,
+        details: "details" in draft ? draft.details : undefined,
+        bookingDate: draft.schedule.bookingDate,
+        bookingTime: draft.schedule.bookingTime,
+        location: draft.schedule.location,
         serviceRate,
+        quoteId: quote.quoteId,
+        // Weekly, bi-weekly and monthly bookings create the whole series
+        recurrence: buildSeriesRecurrence(draft),
       };
 
-      // Make the API call to your backend
-      const response = await fetch(
-        "https://klinner.onrender.com/api/v1/service/create-service",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authToken}`,
-          },
-          body: JSON.stringify(serviceData),
-        }
+      const paymentProvider = getPaymentProvider();
+      const response = await BookingService.createBooking(
+        { ...serviceData, paymentProvider: paymentProvider.name, pinToken },
+        draft.idempotencyKey
       );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        alert(`Server error: ${response.status} ${errorText}`);
-        setLoading(false);
-        return;
-      }
-
-      const data = await response.json();
-      const { authorization_url, access_code, reference } = data.data.payment;
-      const serviceId = data.data.cleaningService._id;
-
-      // Store booking data in localStorage so the confirmation page can access it
-      const confirmedBooking = {
-        ...bookingData,
-        id: serviceId,
-        confirmed: true,
-        paymentStatus: "pending",
-        paymentReference: reference,
-      };
-      
-      localStorage.setItem("bookingData", JSON.stringify(confirmedBooking));
+      const serviceId = response.data.cleaningService._id;
+
+      // Start payment with the configured provider
+      const { session } = await startBookingPayment({
+        bookingId: serviceId,
+        amount: quote.finalPrice,
+        provider: paymentProvider.name,
+        pinToken,
+      });
+
+      // Record the created booking on the draft for the confirmation page
+      BookingDraftStore.update({
+        booking: {
+          id: serviceId,
+          paymentStatus: "pending",
+          paymentReference: session.reference,
+          paymentProvider: session.provider,
+          amount: quote.finalPrice,
+        },
+      });
 
       // Redirect to payment page
-      window.location.href = authorization_url;
+      paymentProvider.redirect(session);
     } catch (error) {
       console.error("Error during booking confirmation:", error);
+      submittingRef.current = false;
       setLoading(false);
       alert(`Booking failed: ${error.message}`);
     }
   };
 
   const handleEditBooking = () => {
-    router.push("/house-cleaning");
+    router.push(SERVICE_ROUTES[draft.serviceType]);
   };
 
   if (loading) {
@@ -158,7 +284,7 @@ export default function BookingSummary() {
     );
   }
 
-  if (!bookingData) {
+  if (!draft) {
     return (
       <div className="min-h-screen text-black flex items-center justify-center bg-gray-50">
         <div className="text-center p-6 bg-white rounded-lg shadow-md">
@@ -182,7 +308,7 @@ export default function BookingSummary() {
             We couldn't find your booking information. Let's start over.
           </p>
           <button
-            onClick={() => router.push("/house-cleaning")}
+            onClick={() => router.push("/")}
             className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
           >
             Start New Booking
@@ -192,11 +318,14 @@ export default function BookingSummary() {
     );
   }
 
-  // Calculate estimated time
+  // Calculate estimated time (only cleaning is timed per area)
   const calculateEstimatedTime = () => {
-    if (!bookingData.areas) return "N/A";
+    if (draft.serviceType !== "house-cleaning") return "N/A";
 
-    const totalItems = bookingData.areas.length;
+    const totalItems = Object.values(draft.priceInput.items).reduce(
+      (sum, count) => sum + count,
+      0
+    );
     const baseTime = 60; // 60 minutes base time
     const timePerItem = 30; // 30 minutes per item
     const totalMinutes = baseTime + totalItems * timePerItem;
@@ -206,16 +335,12 @@ export default function BookingSummary() {
     return `${hours}h ${minutes > 0 ? `${minutes}m` : ""}`;
   };
 
-  // Calculate estimated price
-  const calculatePrice = () => {
-    if (!bookingData.areas) return 0;
-
-    const basePrice = 500000; // Base price in cents (₦50)
-    const pricePerItem = 200000; // Price per area in cents (₦20)
-    const totalItems = bookingData.areas.length;
-
-    return ((basePrice + totalItems * pricePerItem) / 100).toFixed(2);
-  };
+  const description = describeDraft(draft);
+  const recurrence = buildSeriesRecurrence(draft);
+  const pricing = calculateServicePrice(draft.priceInput);
+  const reconciliation = reconcileQuote(pricing, quote);
+  const canConfirm =
+    quoteStatus === "ready" && (reconciliation.matches || quoteAccepted);
 
   return (
     <>
@@ -287,7 +412,8 @@ export default function BookingSummary() {
                   Service Details
                 </h2>
                 <p className="text-sm text-gray-500">
-                  Overview of your cleaning service
+                  Overview of your {description.serviceName.toLowerCase()}{" "}
+                  service
                 </p>
               </div>
             </div>
@@ -297,21 +423,26 @@ export default function BookingSummary() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Service Type</span>
                   <span className="font-medium text-gray-900">
-                    {bookingData.serviceCategory || "Standard Home Cleaning"}
+                    {description.serviceCategory}
                   </span>
                 </div>
               </div>
 
               <div className="border-b pb-4">
                 <div className="flex justify-between mb-2">
-                  <span className="text-gray-600">Areas to Clean</span>
+                  <span className="text-gray-600">
+                    {draft.serviceType === "house-cleaning"
+                      ? "Areas to Clean"
+                      : "Selected Options"}
+                  </span>
                   <span className="font-medium text-gray-900">
-                    {bookingData.areas?.length || 0} areas
+                    {description.items.length}{" "}
+                    {description.items.length === 1 ? "item" : "items"}
                   </span>
                 </div>
                 <div className="bg-gray-50 rounded-lg p-3">
                   <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                    {bookingData.areas?.map((area, index) => (
+                    {description.items.map((area, index) => (
                       <li key={index} className="flex items-center">
                         <svg
                           className="h-5 w-5 text-purple-500 mr-2"
@@ -333,14 +464,16 @@ export default function BookingSummary() {
                 </div>
               </div>
 
-              <div className="border-b pb-4">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Estimated Time</span>
-                  <span className="font-medium text-purple-600">
-                    {calculateEstimatedTime()}
-                  </span>
+              {draft.serviceType === "house-cleaning" && (
+                <div className="border-b pb-4">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Estimated Time</span>
+                    <span className="font-medium text-purple-600">
+                      {calculateEstimatedTime()}
+                    </span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </div>
 
@@ -378,7 +511,7 @@ export default function BookingSummary() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Date</span>
                   <span className="font-medium text-gray-900">
-                    {formatDate(bookingData.bookingDate)}
+                    {formatDate(draft.schedule.bookingDate)}
                   </span>
                 </div>
               </div>
@@ -387,7 +520,7 @@ export default function BookingSummary() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Time</span>
                   <span className="font-medium text-gray-900">
-                    {formatTime(bookingData.bookingTime)}
+                    {formatTime(draft.schedule.bookingTime)}
                   </span>
                 </div>
               </div>
@@ -396,10 +529,32 @@ export default function BookingSummary() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Location</span>
                   <span className="font-medium text-gray-900">
-                    {bookingData.location}
+                    {draft.schedule.location}
                   </span>
                 </div>
               </div>
+
+              {recurrence && (
+                <div className="border-b pb-4">
+                  <div className="flex justify-between mb-2">
+                    <span className="text-gray-600">Repeats</span>
+                    <span className="font-medium text-gray-900">
+                      {RECURRENCE_LABELS[recurrence.frequency]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 mb-2">
+                    We&apos;ll book these visits now. You can skip, pause or
+                    reschedule any of them from My Bookings.
+                  </p>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <ul className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm text-gray-800">
+                      {recurrence.occurrences.map((date) => (
+                        <li key={date}>{formatOccurrenceDate(date)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -433,32 +588,87 @@ export default function BookingSummary() {
             </div>
 
             <div className="space-y-4">
-              <div className="border-b pb-4">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Base Fee</span>
-                  <span className="font-medium text-gray-900">₦5000.00</span>
+              {pricing?.lineItems.map((item, index) => (
+                <div key={index} className="border-b pb-4">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{item.label}</span>
+                    <span
+                      className={`font-medium ${
+                        item.amount < 0 ? "text-green-600" : "text-gray-900"
+                      }`}
+                    >
+                      {item.amount < 0 ? "-" : ""}₦
+                      {Math.abs(item.amount).toLocaleString()}
+                    </span>
+                  </div>
                 </div>
-              </div>
+              ))}
 
-              <div className="border-b pb-6">
+              <div className="p-6">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">
-                    Areas Fee ({bookingData.areas?.length || 0} × ₦2000.00)
+                  <span className="text-gray-800 font-semibold">
+                    {recurrence ? "Total per visit" : "Total"}
                   </span>
-                  <span className="font-medium text-gray-900">
-                    ₦{(((bookingData.areas?.length || 0) * 2000)).toFixed(2)}
+                  <span className="font-bold text-purple-600 text-xl">
+                    ₦{(pricing?.finalPrice || 0).toLocaleString()}
                   </span>
                 </div>
               </div>
 
-              <div className="p-6">
-                <div className="flex justify-between">
-                  <span className="text-gray-800 font-semibold">Total</span>
-                  <span className="font-bold text-purple-600 text-xl">
-                    ₦{calculatePrice()}
-                  </span>
+              {quoteStatus === "loading" && (
+                <p className="text-sm text-gray-500 text-center">
+                  Confirming the latest price...
+                </p>
+              )}
+
+              {quoteStatus === "error" && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm text-red-600 mb-2">
+                    We couldn't confirm the price of this booking.
+                  </p>
+                  <button
+                    onClick={fetchQuote}
+                    className="text-sm font-medium text-purple-600 hover:text-purple-700"
+                  >
+                    Try again
+                  </button>
                 </div>
-              </div>
+              )}
+
+              {quoteStatus === "ready" && !reconciliation.matches && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm font-medium text-yellow-800 mb-2">
+                    The price has changed to ₦
+                    {reconciliation.serverTotal.toLocaleString()} (₦
+                    {Math.abs(reconciliation.difference).toLocaleString()}{" "}
+                    {reconciliation.difference > 0 ? "more" : "less"} than
+                    shown above).
+                  </p>
+                  <ul className="text-sm text-yellow-800 space-y-1 mb-3">
+                    {quote.lineItems.map((item, index) => (
+                      <li key={index} className="flex justify-between">
+                        <span>{item.label}</span>
+                        <span>
+                          {item.amount < 0 ? "-" : ""}₦
+                          {Math.abs(item.amount).toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={quoteAccepted}
+                      onChange={(e) => setQuoteAccepted(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      I accept the updated price of ₦
+                      {reconciliation.serverTotal.toLocaleString()}
+                    </span>
+                  </label>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -474,14 +684,26 @@ export default function BookingSummary() {
             </button>
             <button
               onClick={handleConfirmBooking}
-              className="py-3 px-6 bg-purple-600 text-white rounded-xl text-lg font-medium shadow-lg hover:bg-purple-700 transition-colors md:flex-1"
+              disabled={!canConfirm}
+              className={`py-3 px-6 rounded-xl text-lg font-medium transition-colors md:flex-1 ${
+                canConfirm
+                  ? "bg-purple-600 text-white shadow-lg hover:bg-purple-700"
+                  : "bg-gray-300 text-gray-500 cursor-not-allowed"
+              }`}
             >
-              Confirm & Pay
+              {quoteStatus === "ready"
+                ? `Confirm & Pay ₦${quote.finalPrice.toLocaleString()}`
+                : "Confirm & Pay"}
             </button>
           </div>
         </div>
+
+        <TransactionPinModal
+          isOpen={showPinModal}
+          onClose={() => setShowPinModal(false)}
+          onVerified={submitBooking}
+        />
       </div>
     </>
   );
-
 }
@@ -4,6 +4,13 @@
 import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
+import DateTimeSelector from "../../../components/DateTimeSelector";
+import { BookingDraftStore } from "../../../../utils/bookingDraft";
+import {
+  calculateServicePrice,
+  GARDEN_FREQUENCIES,
+  GARDEN_SIZES,
+} from "../../../../utils/pricing";
 
 export default function GardeningPage() {
   const router = useRouter();
@@ -11,6 +18,7 @@ export default function GardeningPage() {
   const [gardenSize, setGardenSize] = useState(null);
   const [frequency, setFrequency] = useState(null);
   const [isDesktop, setIsDesktop] = useState(false);
+  const [isDateSelectorOpen, setIsDateSelectorOpen] = useState(false);
 
   // Detect if viewing on desktop
   useEffect(() => {
@@ -165,25 +173,25 @@ export default function GardeningPage() {
       id: "small",
       title: "Small",
       description: "Up to 100 sq meters",
-      price: "₦5,000",
+      price: `₦${GARDEN_SIZES.small.price.toLocaleString()}`,
     },
     {
       id: "medium",
       title: "Medium",
       description: "100-250 sq meters",
-      price: "₦8,500",
+      price: `₦${GARDEN_SIZES.medium.price.toLocaleString()}`,
     },
     {
       id: "large",
       title: "Large",
       description: "250-500 sq meters",
-      price: "₦12,000",
+      price: `₦${GARDEN_SIZES.large.price.toLocaleString()}`,
     },
     {
       id: "xlarge",
       title: "X-Large",
       description: "500+ sq meters",
-      price: "₦18,000",
+      price: `₦${GARDEN_SIZES.xlarge.price.toLocaleString()}`,
     },
   ];
 
@@ -198,19 +206,19 @@ export default function GardeningPage() {
       id: "biweekly",
       title: "Bi-weekly",
       description: "Every two weeks",
-      price: "-₦500 per visit",
+      price: `-₦${GARDEN_FREQUENCIES.biweekly.discount.toLocaleString()} per visit`,
     },
     {
       id: "weekly",
       title: "Weekly",
       description: "Every week",
-      price: "-₦1,000 per visit",
+      price: `-₦${GARDEN_FREQUENCIES.weekly.discount.toLocaleString()} per visit`,
     },
     {
       id: "monthly",
       title: "Monthly",
       description: "Once a month",
-      price: "-₦250 per visit",
+      price: `-₦${GARDEN_FREQUENCIES.monthly.discount.toLocaleString()} per visit`,
     },
   ];
 
@@ -227,24 +235,32 @@ export default function GardeningPage() {
   const handleContinue = () => {
     // Make sure at least one service, garden size and frequency are selected
     if (selectedServices.length > 0 && gardenSize && frequency) {
-      // Save the selected options to localStorage
-      localStorage.setItem(
-        "gardeningServices",
-        JSON.stringify({
+      // Start the booking draft, then pick a date and time
+      BookingDraftStore.start({
+        serviceType: "gardening",
+        priceInput: {
+          serviceType: "gardening",
           services: selectedServices,
-          gardenSize: gardenSize,
-          frequency: frequency,
-        })
-      );
-
-      // Navigate to the next step
-      router.push("/booking-summary");
+          gardenSize,
+          frequency,
+        },
+      });
+      setIsDateSelectorOpen(true);
     }
   };
 
   const isReadyToContinue =
     selectedServices.length > 0 && gardenSize && frequency;
 
+  const pricing = isReadyToContinue
+    ? calculateServicePrice({
+        serviceType: "gardening",
+        services: selectedServices,
+        gardenSize,
+        frequency,
+      })
+    : null;
+
   return (
     <>
       <Head>
@@ -255,6 +271,12 @@ export default function GardeningPage() {
         />
       </Head>
 
+      <DateTimeSelector
+        isOpen={isDateSelectorOpen}
+        onClose={() => setIsDateSelectorOpen(false)}
+        serviceType="gardening"
+      />
+
       <div className="min-h-screen bg-gray-50">
         {/* Top service info banner */}
         <div className="bg-gradient-to-r from-green-700 to-green-900 text-white p-3 text-center">
@@ -617,7 +639,9 @@ export default function GardeningPage() {
               }`}
               disabled={!isReadyToContinue}
             >
-              Continue to Booking
+              {pricing
+                ? `Continue to Booking • ₦${pricing.finalPrice.toLocaleString()}`
+                : "Continue to Booking"}
             </button>
           </div>
         </div>
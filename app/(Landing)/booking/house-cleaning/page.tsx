@@ -5,52 +5,17 @@ import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
 import DateTimeSelector from "../../../components/DateTimeSelector";
-
-// API Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002";
-
-// Get auth token from cookies or localStorage
-const getAuthToken = () => {
-  if (typeof document !== "undefined") {
-    const cookies = document.cookie.split(";");
-    const authCookie = cookies.find((cookie) =>
-      cookie.trim().startsWith("auth_token=")
-    );
-    if (authCookie) {
-      return authCookie.split("=")[1];
-    }
-  }
-
-  if (typeof window !== "undefined" && window.localStorage) {
-    return localStorage.getItem("auth_token") || localStorage.getItem("token");
-  }
-  return null;
-};
-
-// Get user data from localStorage
-const getUserData = () => {
-  if (typeof window === "undefined" || !window.localStorage) {
-    throw new Error("localStorage not available");
-  }
-
-  const userData = localStorage.getItem("user_data");
-  if (!userData) {
-    throw new Error("User not found. Please log in again.");
-  }
-
-  try {
-    const user = JSON.parse(userData);
-    const userId = user.user_id || user.id;
-
-    if (!userId) {
-      throw new Error("Invalid user data. Please log in again.");
-    }
-
-    return { user, userId };
-  } catch (parseError) {
-    throw new Error("Invalid user data. Please log in again.");
-  }
-};
+import {
+  calculateServicePrice,
+  emptyBreakdown,
+  CleaningPriceInput,
+} from "../../../../utils/pricing";
+import {
+  BookingDraftStore,
+  CleaningCustomerInfo,
+} from "../../../../utils/bookingDraft";
+import { useAuth } from "../../../../context/AuthContext";
+import { getVerifiedPhone, isSamePhone } from "../../../../utils/phone";
 
 // Map frontend room names to backend format
 const mapRoomsToBackend = (frontendItems: { [key: string]: number }) => {
@@ -85,112 +50,9 @@ const mapRoomsToBackend = (frontendItems: { [key: string]: number }) => {
   return backendItems;
 };
 
-interface CleaningPriceOptions {
-  category?: string;
-  package?: string;
-  homeSize?: string;
-  frequency?: string;
-}
-
-// Calculate price client-side (matches backend logic)
-const calculateCleaningPrice = (
-  items: { [key: string]: number },
-  options: CleaningPriceOptions = {}
-) => {
-  const {
-    category = "Standard Cleaning",
-    package: packageName = "Standard Package",
-    homeSize = "small",
-    frequency = "one-time",
-  } = options;
-
-  // Pricing constants (matches backend)
-  const CLEANING_CATEGORIES = {
-    "Standard Cleaning": { basePrice: 8000, pricePerRoom: 1200 },
-    "Deep Cleaning": { basePrice: 15000, pricePerRoom: 2000 },
-    "Move-in Cleaning": { basePrice: 20000, pricePerRoom: 2500 },
-    "Move-out Cleaning": { basePrice: 22000, pricePerRoom: 2800 },
-  };
-
-  const CLEANING_PACKAGES = {
-    "Basic Package": { multiplier: 0.8 },
-    "Standard Package": { multiplier: 1 },
-    "Premium Package": { multiplier: 1.4 },
-    "Luxury Package": { multiplier: 1.8 },
-  };
-
-  const HOME_SIZES = {
-    studio: { multiplier: 0.7 },
-    small: { multiplier: 1 },
-    medium: { multiplier: 1.5 },
-    large: { multiplier: 2.2 },
-  };
-
-  const FREQUENCIES = {
-    "one-time": { discount: 0 },
-    monthly: { discount: 0.05 },
-    "bi-weekly": { discount: 0.1 },
-    weekly: { discount: 0.15 },
-  };
-
-  const categoryData = CLEANING_CATEGORIES[category];
-  const packageData = CLEANING_PACKAGES[packageName];
-  const sizeData = HOME_SIZES[homeSize];
-  const frequencyData = FREQUENCIES[frequency];
-
-  if (!categoryData || !packageData || !sizeData || !frequencyData) {
-    return { finalPrice: 0, breakdown: {} };
-  }
-
-  // Convert frontend items to backend format for calculation
-  const backendItems = mapRoomsToBackend(items);
-  const totalItems = Object.values(backendItems).reduce(
-    (sum, count) => sum + Number(count),
-    0
-  );
-
-  if (totalItems === 0) {
-    return { finalPrice: 0, breakdown: {} };
-  }
-
-  // Calculate price
-  const baseTotal =
-    (categoryData.basePrice + totalItems * categoryData.pricePerRoom) *
-    packageData.multiplier *
-    sizeData.multiplier;
-
-  const discountedPrice = baseTotal * (1 - frequencyData.discount);
-  const finalPrice = Math.round(discountedPrice);
-
-  return {
-    finalPrice,
-    breakdown: {
-      basePrice: categoryData.basePrice,
-      roomCount: totalItems,
-      pricePerRoom: categoryData.pricePerRoom,
-      packageMultiplier: packageData.multiplier,
-      sizeMultiplier: sizeData.multiplier,
-      frequencyDiscount: frequencyData.discount,
-      subtotal: baseTotal,
-      discount: baseTotal - discountedPrice,
-      total: finalPrice,
-    },
-  };
-};
-
-interface CustomerInfoState {
-  phone: string;
-  address: string;
-  notes: string;
-  specialRequests: string[];
-  reminders: {
-    sms: boolean;
-    email: boolean;
-  };
-}
-
 export default function HouseCleaningPage() {
   const router = useRouter();
+  const { user } = useAuth();
   const [items, setItems] = useState({
     "Living Room": 0,
     Terrace: 0,
@@ -210,7 +72,7 @@ export default function HouseCleaningPage() {
     specialInstructions: "",
   });
 
-  const [customerInfo, setCustomerInfo] = useState<CustomerInfoState>({
+  const [customerInfo, setCustomerInfo] = useState<CleaningCustomerInfo>({
     phone: "",
     address: "",
     notes: "",
@@ -224,7 +86,7 @@ export default function HouseCleaningPage() {
   const [totalItems, setTotalItems] = useState(0);
   const [isDesktop, setIsDesktop] = useState(false);
   const [isDateSelectorOpen, setIsDateSelectorOpen] = useState(false);
-  const [pricing, setPricing] = useState({ finalPrice: 0, breakdown: {} });
+  const [pricing, setPricing] = useState(emptyBreakdown("house-cleaning"));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState(null);
   const [showOptions, setShowOptions] = useState(false);
@@ -274,16 +136,35 @@ export default function HouseCleaningPage() {
     { id: "weekly", name: "Weekly", discount: 15 },
   ];
 
+  // Start from the number verified on the profile; it can still be changed
+  // for this booking
+  const verifiedPhone = getVerifiedPhone(user);
+  useEffect(() => {
+    if (verifiedPhone) {
+      setCustomerInfo((prev) =>
+        prev.phone ? prev : { ...prev, phone: verifiedPhone }
+      );
+    }
+  }, [verifiedPhone]);
+
   // Calculate total items whenever items state changes
   useEffect(() => {
     const total = Object.values(items).reduce((sum, count) => sum + count, 0);
     setTotalItems(total);
   }, [items]);
 
+  const priceInput: CleaningPriceInput = {
+    serviceType: "house-cleaning",
+    items,
+    category: selectedOptions.category,
+    package: selectedOptions.package,
+    homeSize: selectedOptions.homeSize,
+    frequency: selectedOptions.frequency,
+  };
+
   // Calculate pricing when items or options change
   useEffect(() => {
-    const newPricing = calculateCleaningPrice(items, selectedOptions);
-    setPricing(newPricing);
+    setPricing(calculateServicePrice(priceInput));
   }, [items, selectedOptions]);
 
   // Detect if viewing on desktop
@@ -354,56 +235,6 @@ export default function HouseCleaningPage() {
     }));
   };
 
-  // Book cleaning service API call
-  const bookCleaningService = async (
-    cleaningData,
-    bookingDetails,
-    customerInfo = {}
-  ) => {
-    try {
-      const authToken = getAuthToken();
-      if (!authToken) {
-        throw new Error("Authentication required. Please log in again.");
-      }
-
-      const { userId } = getUserData();
-
-      const requestData = {
-        user_id: userId,
-        cleaningData,
-        bookingDetails,
-        customerInfo,
-      };
-
-      console.log("🏠 Booking cleaning service with data:", requestData);
-
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/house-cleaning/create`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authToken}`,
-          },
-          body: JSON.stringify(requestData),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.message || `Booking failed: ${response.status}`
-        );
-      }
-
-      const result = await response.json();
-      return result.data;
-    } catch (error) {
-      console.error("Error booking cleaning service:", error);
-      throw error;
-    }
-  };
-
   const handleContinue = () => {
     if (totalItems === 0) {
       setError("Please select at least one room to clean");
@@ -429,18 +260,17 @@ export default function HouseCleaningPage() {
       turnaround: getTurnaround(selectedOptions.category),
     };
 
-    // Store booking data for DateTimeSelector
-    const bookingData = {
-      items,
-      selectedOptions,
-      pricing,
-      totalItems,
-      cleaningData,
-      backendItems,
-      customerInfo,
-    };
-
-    localStorage.setItem("cleaningItems", JSON.stringify(bookingData));
+    // Start the booking draft that DateTimeSelector and checkout continue
+    BookingDraftStore.start({
+      serviceType: "house-cleaning",
+      priceInput,
+      details: {
+        preferredTime: selectedOptions.preferredTime,
+        specialInstructions: selectedOptions.specialInstructions,
+        customerInfo,
+        cleaningData,
+      },
+    });
     setIsDateSelectorOpen(true);
   };
 
@@ -555,13 +385,11 @@ export default function HouseCleaningPage() {
         <meta name="description" content="Book our house cleaning service" />
       </Head>
 
-      {/* Enhanced DateTimeSelector with booking functionality */}
+      {/* Schedule step for the cleaning draft */}
       <DateTimeSelector
         isOpen={isDateSelectorOpen}
         onClose={() => setIsDateSelectorOpen(false)}
-        selectedItems={items}
-        bookingService={bookCleaningService}
-        pricing={pricing}
+        serviceType="house-cleaning"
       />
 
       <div className="min-h-screen bg-gray-50">
@@ -941,6 +769,11 @@ export default function HouseCleaningPage() {
                   <p className="text-xs text-gray-500 mt-1">
                     We'll use this to coordinate with you on the day of cleaning
                   </p>
+                  {isSamePhone(customerInfo.phone, verifiedPhone) && (
+                    <p className="text-xs font-medium text-green-600 mt-1">
+                      ✓ Verified on your profile
+                    </p>
+                  )}
                 </div>
 
                 {/* Service Address */}
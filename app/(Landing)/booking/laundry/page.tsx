@@ -4,11 +4,18 @@
 import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
+import DateTimeSelector from "../../../components/DateTimeSelector";
+import { BookingDraftStore } from "../../../../utils/bookingDraft";
+import {
+  calculateServicePrice,
+  LAUNDRY_OPTIONS,
+} from "../../../../utils/pricing";
 
 export default function LaundryPage() {
   const router = useRouter();
   const [selectedOption, setSelectedOption] = useState(null);
   const [isDesktop, setIsDesktop] = useState(false);
+  const [isDateSelectorOpen, setIsDateSelectorOpen] = useState(false);
 
   // Detect if viewing on desktop
   useEffect(() => {
@@ -45,17 +52,25 @@ export default function LaundryPage() {
     },
   ];
 
+  const pricing = selectedOption
+    ? calculateServicePrice({
+        serviceType: "laundry",
+        option: selectedOption.id,
+      })
+    : null;
+
   const handleOptionSelect = (option) => {
     setSelectedOption(option);
   };
 
   const handleContinue = () => {
     if (selectedOption) {
-      // Save the selected option to localStorage
-      localStorage.setItem("laundryOption", selectedOption.title);
-
-      // Navigate to the next step
-      router.push("/booking-summary");
+      // Start the booking draft, then pick a date and time
+      BookingDraftStore.start({
+        serviceType: "laundry",
+        priceInput: { serviceType: "laundry", option: selectedOption.id },
+      });
+      setIsDateSelectorOpen(true);
     }
   };
 
@@ -125,6 +140,12 @@ export default function LaundryPage() {
         <meta name="description" content="Book our laundry service" />
       </Head>
 
+      <DateTimeSelector
+        isOpen={isDateSelectorOpen}
+        onClose={() => setIsDateSelectorOpen(false)}
+        serviceType="laundry"
+      />
+
       <div className="min-h-screen bg-gray-50">
         {/* Header */}
         <div className="sticky top-0 z-10 bg-white p-4 flex items-center border-b shadow-sm">
@@ -224,6 +245,9 @@ export default function LaundryPage() {
                     <p className="text-sm text-gray-600 ml-10">
                       {option.description}
                     </p>
+                    <p className="text-sm font-semibold text-purple-600 ml-10 mt-1">
+                      ₦{LAUNDRY_OPTIONS[option.id].price.toLocaleString()}
+                    </p>
                   </div>
                 </div>
               ))}
@@ -276,7 +300,9 @@ export default function LaundryPage() {
               }`}
               disabled={!selectedOption}
             >
-              Continue
+              {pricing
+                ? `Continue • ₦${pricing.finalPrice.toLocaleString()}`
+                : "Continue"}
             </button>
           </div>
         </div>
@@ -5,6 +5,9 @@ import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import DateTimeSelector from "../../../components/DateTimeSelector";
+import { BookingDraftStore } from "../../../../utils/bookingDraft";
+import { calculateServicePrice } from "../../../../utils/pricing";
 
 export default function MoveOutPage() {
   const router = useRouter();
@@ -19,6 +22,7 @@ export default function MoveOutPage() {
   });
   const [totalRooms, setTotalRooms] = useState(0);
   const [isDesktop, setIsDesktop] = useState(false);
+  const [isDateSelectorOpen, setIsDateSelectorOpen] = useState(false);
 
   // Calculate total rooms whenever rooms state changes
   useEffect(() => {
@@ -40,6 +44,8 @@ export default function MoveOutPage() {
     };
   }, []);
 
+  const pricing = calculateServicePrice({ serviceType: "moving", rooms });
+
   const handleIncrement = (room) => {
     setRooms((prev) => ({
       ...prev,
@@ -57,11 +63,12 @@ export default function MoveOutPage() {
   };
 
   const handleContinue = () => {
-    // Save the selected rooms data to localStorage
-    localStorage.setItem("moveOutRooms", JSON.stringify(rooms));
-
-    // Navigate to the next step
-    router.push("/booking-summary");
+    // Start the booking draft, then pick a date and time
+    BookingDraftStore.start({
+      serviceType: "moving",
+      priceInput: { serviceType: "moving", rooms },
+    });
+    setIsDateSelectorOpen(true);
   };
 
   // Get room icon based on room name
@@ -165,6 +172,12 @@ export default function MoveOutPage() {
         />
       </Head>
 
+      <DateTimeSelector
+        isOpen={isDateSelectorOpen}
+        onClose={() => setIsDateSelectorOpen(false)}
+        serviceType="moving"
+      />
+
       <div className="min-h-screen bg-gray-50">
         {/* Header */}
         <div className="sticky top-0 z-10 bg-white p-4 flex items-center border-b shadow-sm">
@@ -261,6 +274,14 @@ export default function MoveOutPage() {
                 </span>
                 <span className="ml-1 text-gray-700">rooms selected</span>
               </p>
+              {pricing.finalPrice > 0 && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Estimated Price{" "}
+                  <span className="font-bold text-purple-600 text-lg">
+                    ₦{pricing.finalPrice.toLocaleString()}
+                  </span>
+                </p>
+              )}
             </div>
           </div>
 
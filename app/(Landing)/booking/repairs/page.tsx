@@ -4,6 +4,12 @@
 import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
+import DateTimeSelector from "../../../components/DateTimeSelector";
+import { BookingDraftStore } from "../../../../utils/bookingDraft";
+import {
+  calculateServicePrice,
+  REPAIR_URGENCIES,
+} from "../../../../utils/pricing";
 
 export default function RepairsPage() {
   const router = useRouter();
@@ -11,6 +17,7 @@ export default function RepairsPage() {
   const [urgency, setUrgency] = useState(null);
   const [description, setDescription] = useState("");
   const [isDesktop, setIsDesktop] = useState(false);
+  const [isDateSelectorOpen, setIsDateSelectorOpen] = useState(false);
   const [uploadedPhotos, setUploadedPhotos] = useState([]);
 
   // Detect if viewing on desktop
@@ -167,13 +174,13 @@ export default function RepairsPage() {
       id: "priority",
       title: "Priority",
       description: "Within 24 hours",
-      price: "+₦2,000",
+      price: `+₦${REPAIR_URGENCIES.priority.surcharge.toLocaleString()}`,
     },
     {
       id: "emergency",
       title: "Emergency",
       description: "Within 3-6 hours",
-      price: "+₦5,000",
+      price: `+₦${REPAIR_URGENCIES.emergency.surcharge.toLocaleString()}`,
     },
   ];
 
@@ -199,24 +206,22 @@ export default function RepairsPage() {
 
   const handleContinue = () => {
     if (repairType && urgency) {
-      // Save the selected options to localStorage
-      localStorage.setItem(
-        "repairRequest",
-        JSON.stringify({
-          repairType,
-          urgency,
-          description,
-          photosCount: uploadedPhotos.length,
-        })
-      );
-
-      // Navigate to the next step
-      router.push("/booking-summary");
+      // Start the booking draft, then pick a date and time
+      BookingDraftStore.start({
+        serviceType: "repairs",
+        priceInput: { serviceType: "repairs", repairType, urgency },
+        details: { description, photosCount: uploadedPhotos.length },
+      });
+      setIsDateSelectorOpen(true);
     }
   };
 
   const isReadyToContinue = repairType && urgency;
 
+  const pricing = isReadyToContinue
+    ? calculateServicePrice({ serviceType: "repairs", repairType, urgency })
+    : null;
+
   const formatFileSize = (bytes) => {
     if (bytes < 1024) return bytes + " B";
     else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + " KB";
@@ -233,6 +238,12 @@ export default function RepairsPage() {
         />
       </Head>
 
+      <DateTimeSelector
+        isOpen={isDateSelectorOpen}
+        onClose={() => setIsDateSelectorOpen(false)}
+        serviceType="repairs"
+      />
+
       <div className="min-h-screen bg-gray-50">
         {/* Top service info banner */}
         <div className="bg-gradient-to-r from-blue-700 to-blue-900 text-white p-3 text-center">
@@ -655,7 +666,9 @@ export default function RepairsPage() {
               }`}
               disabled={!isReadyToContinue}
             >
-              Continue to Booking
+              {pricing
+                ? `Continue to Booking • ₦${pricing.finalPrice.toLocaleString()}`
+                : "Continue to Booking"}
             </button>
           </div>
         </div>
@@ -1,15 +1,20 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import Image from "next/image";
 import PhoneInput from "react-phone-input-2";
 import "react-phone-input-2/lib/style.css";
 import { useRouter } from "next/navigation";
 import { toast } from "react-hot-toast";
-import axios from "axios";
-import Cookies from "js-cookie";
+import api from "../../../services/api";
+import { useAuth } from "../../../context/AuthContext";
+import PhoneVerification from "../../components/PhoneVerification";
+import ChangeEmailForm from "../../components/ChangeEmailForm";
 
 export default function UserProfileForm() {
   const router = useRouter();
+  const { user, isAuthenticated, updateUser, clearSession } = useAuth();
+  // The form is filled from the session once; later user updates keep edits
+  const prefilledRef = useRef(false);
   const [loading, setLoading] = useState(false);
   const [imageLoading, setImageLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -26,6 +31,7 @@ export default function UserProfileForm() {
   });
   const [preview, setPreview] = useState(null);
   const [hasImageChanged, setHasImageChanged] = useState(false);
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
 
   // Nigerian states list
   const nigerianStates = [
@@ -111,17 +117,9 @@ export default function UserProfileForm() {
     "Yenagoa",
   ];
 
-  // Helper function to get auth token from cookies
-  const getAuthToken = () => {
-    const token = Cookies.get("auth_token");
-    console.log("Token from cookie:", token ? "Token found" : "No token");
-    return token;
-  };
-
   // Helper function to check authentication and redirect if needed
   const checkAuthentication = () => {
-    const token = getAuthToken();
-    if (!token) {
+    if (!isAuthenticated()) {
       toast.error("Authentication token not found. Please login again.");
       router.push("/auth/signin");
       return false;
@@ -129,43 +127,31 @@ export default function UserProfileForm() {
     return true;
   };
 
-  // Load existing user data from localStorage if available
+  // Load existing user data from the session if available
   useEffect(() => {
-    const userData = localStorage.getItem("user_data");
-    console.log("Raw userData from localStorage:", userData); // Debug log
-
-    if (userData) {
-      try {
-        const user = JSON.parse(userData);
-        console.log("Parsed user data:", user); // Debug log
-
-        setFormData({
-          firstName: user.firstName || "",
-          lastName: user.lastName || "",
-          username: user.username || "",
-          dateOfBirth: user.dateOfBirth || "",
-          email: user.email || "",
-          mobile: user.phone || user.mobile || "", // Check both phone and mobile
-          address: user.address || "",
-          city: user.city || "",
-          state: user.state || "",
-          image: null,
-        });
-
-        console.log("Set form data with email:", user.email); // Debug log
-
-        // Set preview if user has existing profile image
-        if (user.profileImage?.url) {
-          setPreview(user.profileImage.url);
-          console.log("Set preview image:", user.profileImage.url); // Debug log
-        }
-      } catch (error) {
-        console.error("Error parsing user data from localStorage:", error);
-      }
-    } else {
-      console.log("No user data found in localStorage"); // Debug log
+    if (!user || prefilledRef.current) {
+      return;
+    }
+    prefilledRef.current = true;
+
+    setFormData({
+      firstName: user.firstName || "",
+      lastName: user.lastName || "",
+      username: user.username || "",
+      dateOfBirth: user.dateOfBirth || "",
+      email: user.email || "",
+      mobile: user.phone || user.mobile || "", // Check both phone and mobile
+      address: user.address || "",
+      city: user.city || "",
+      state: user.state || "",
+      image: null,
+    });
+
+    // Set preview if user has existing profile image
+    if (user.profileImage?.url) {
+      setPreview(user.profileImage.url);
     }
-  }, []);
+  }, [user]);
 
   const handleChange = (e) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
@@ -214,7 +200,6 @@ export default function UserProfileForm() {
     setImageLoading(true);
 
     try {
-      const authToken = getAuthToken();
       const imageFormData = new FormData();
       imageFormData.append("image", formData.image);
 
@@ -222,55 +207,34 @@ export default function UserProfileForm() {
       console.log("Uploading image:", formData.image);
       console.log("FormData entries:", [...imageFormData.entries()]);
 
-      const response = await axios.put(
-        `${
-          process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002"
-        }/api/v1/user/update-profile-image`,
-        imageFormData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-            Authorization: `Bearer ${authToken}`,
-          },
-        }
-      );
+      const response = await api.user.updateProfileImage(imageFormData);
 
-      if (response.data.success) {
+      if (response.success) {
         toast.success("Profile image uploaded successfully!");
         setHasImageChanged(false);
 
-        // Update user data in localStorage with the new image
-        const currentUserData = JSON.parse(
-          localStorage.getItem("user_data") || "{}"
-        );
-        const updatedUserData = {
-          ...currentUserData,
-          profileImage: response.data.data.profileImage,
-        };
-        localStorage.setItem("user_data", JSON.stringify(updatedUserData));
+        // Update the session user with the new image
+        updateUser({ profileImage: response.data.profileImage });
 
         // Update preview with the new URL from server
-        if (response.data.data.imageUrl) {
-          setPreview(response.data.data.imageUrl);
+        if (response.data.imageUrl) {
+          setPreview(response.data.imageUrl);
         }
       } else {
-        toast.error(response.data.message || "Failed to upload image");
+        toast.error(response.message || "Failed to upload image");
       }
     } catch (err) {
       console.error("Error uploading image:", err);
-      console.error("Error response:", err.response?.data);
 
-      if (err.response?.status === 401) {
+      if (err.status === 401) {
         toast.error("Authentication failed. Please login again.");
-        Cookies.remove("auth_token"); // Remove invalid token from cookies
+        clearSession();
         router.push("/auth/signin");
-      } else if (err.response?.status === 500) {
+      } else if (err.status === 500) {
         toast.error("Server error. Please check your backend logs.");
       } else {
         const errorMessage =
-          err.response?.data?.message ||
-          err.message ||
-          "Failed to upload image. Please try again.";
+          err.message || "Failed to upload image. Please try again.";
         toast.error(errorMessage);
       }
     } finally {
@@ -290,8 +254,6 @@ export default function UserProfileForm() {
     setLoading(true);
 
     try {
-      const authToken = getAuthToken();
-
       // Prepare JSON data for fill-data endpoint (POST /api/v1/user/fill-data)
       const dataToSend = {
         firstName: formData.firstName,
@@ -306,48 +268,30 @@ export default function UserProfileForm() {
       console.log("Sending fill-data:", dataToSend); // Debug log
 
       // Make the API request to fill-data endpoint using token-based authentication
-      const response = await axios.post(
-        `${
-          process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002"
-        }/api/v1/user/fill-data`,
-        dataToSend,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authToken}`,
-          },
-        }
-      );
+      const response = await api.user.fillData(dataToSend);
 
-      if (response.data.success) {
+      if (response.success) {
         toast.success("Profile data updated successfully!");
 
-        // Update user data in localStorage with the new information
-        const currentUserData = JSON.parse(
-          localStorage.getItem("user_data") || "{}"
-        );
-        const updatedUserData = { ...currentUserData, ...response.data.data };
-        localStorage.setItem("user_data", JSON.stringify(updatedUserData));
+        // Update the session user with the new information
+        updateUser(response.data);
 
         // Redirect to dashboard
         router.push("/");
       } else {
-        toast.error(response.data.message || "Failed to update profile");
+        toast.error(response.message || "Failed to update profile");
       }
     } catch (err) {
       console.error("Error updating profile:", err);
-      console.error("Error response:", err.response?.data);
 
       // Handle different error types
-      if (err.response?.status === 401) {
+      if (err.status === 401) {
         toast.error("Authentication failed. Please login again.");
-        Cookies.remove("auth_token"); // Remove invalid token from cookies
+        clearSession();
         router.push("/auth/signin");
       } else {
         const errorMessage =
-          err.response?.data?.message ||
-          err.message ||
-          "Failed to update profile. Please try again.";
+          err.message || "Failed to update profile. Please try again.";
         toast.error(errorMessage);
       }
     } finally {
@@ -463,23 +407,47 @@ export default function UserProfileForm() {
             className="w-full p-2 text-black border rounded-md focus:ring focus:ring-purple-300 disabled:opacity-50"
           />
 
-          <input
-            type="email"
-            name="email"
-            value={formData.email}
-            onChange={handleChange}
-            placeholder="Email"
-            disabled={true} // Make email field uneditable
-            className="w-full text-black p-2 border rounded-md bg-gray-100 cursor-not-allowed"
-          />
+          <div>
+            {/* Read-only; a new address has to be confirmed by code first */}
+            <input
+              type="email"
+              name="email"
+              value={formData.email}
+              placeholder="Email"
+              disabled={true}
+              className="w-full text-black p-2 border rounded-md bg-gray-100 cursor-not-allowed"
+            />
+            {isChangingEmail ? (
+              <div className="mt-2">
+                <ChangeEmailForm
+                  onDone={(email) => {
+                    setIsChangingEmail(false);
+                    if (email) setFormData({ ...formData, email });
+                  }}
+                />
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsChangingEmail(true)}
+                disabled={loading}
+                className="mt-2 text-sm font-medium text-[#3310C2] disabled:text-gray-400"
+              >
+                Change email address
+              </button>
+            )}
+          </div>
 
-          <PhoneInput
-            country={"ng"}
-            value={formData.mobile}
-            onChange={handlePhoneChange}
-            disabled={loading}
-            inputClass="!w-full !p-2 !border !rounded-md focus:ring focus:ring-purple-300 !text-black"
-          />
+          <div>
+            <PhoneInput
+              country={"ng"}
+              value={formData.mobile}
+              onChange={handlePhoneChange}
+              disabled={loading}
+              inputClass="!w-full !p-2 !border !rounded-md focus:ring focus:ring-purple-300 !text-black"
+            />
+            <PhoneVerification phone={formData.mobile} />
+          </div>
 
           <input
             type="text"
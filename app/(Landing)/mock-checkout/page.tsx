@@ -0,0 +1,100 @@
+// pages/mock-checkout.js
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Head from "next/head";
+import api from "../../../services/api";
+import {
+  completeMockPayment,
+  getMockPayment,
+  DEFAULT_PAYMENT_PROVIDER,
+} from "../../../utils/payments";
+
+// Stand-in for a hosted gateway page when the mock provider is enabled
+function MockCheckout() {
+  const searchParams = useSearchParams();
+  const reference = searchParams.get("reference");
+  const [payment, setPayment] = useState(null);
+
+  useEffect(() => {
+    if (reference) {
+      setPayment(getMockPayment(reference));
+    }
+  }, [reference]);
+
+  const handleComplete = async (approved) => {
+    completeMockPayment(reference, approved);
+
+    // Deliver the result through the webhook, as a real gateway would
+    try {
+      await api.payments.completeMock({
+        reference,
+        approved,
+        amount: payment.amount,
+      });
+    } catch (error) {
+      console.error("Error sending mock webhook:", error);
+    }
+
+    window.location.href = `${payment.callbackUrl}?reference=${encodeURIComponent(
+      reference
+    )}`;
+  };
+
+  if (DEFAULT_PAYMENT_PROVIDER !== "mock" || !payment) {
+    return (
+      <div className="text-center p-6 bg-white rounded-lg shadow-md">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          Payment Not Found
+        </h2>
+        <p className="text-gray-600">
+          The mock gateway is only available in local development.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-8 text-center w-full max-w-md">
+      <p className="text-sm font-medium text-yellow-700 bg-yellow-50 rounded-lg py-2 mb-6">
+        Test mode · no money will be charged
+      </p>
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">Mock Checkout</h1>
+      <p className="text-gray-600 mb-1">Reference: {reference}</p>
+      <p className="text-3xl font-bold text-purple-600 my-6">
+        ₦{Number(payment.amount || 0).toLocaleString()}
+      </p>
+      <div className="flex flex-col gap-3">
+        <button
+          onClick={() => handleComplete(true)}
+          className="py-3 px-6 bg-purple-600 text-white rounded-xl text-lg font-medium hover:bg-purple-700 transition-colors"
+        >
+          Approve Payment
+        </button>
+        <button
+          onClick={() => handleComplete(false)}
+          className="py-3 px-6 border border-red-500 text-red-600 rounded-xl text-lg font-medium hover:bg-red-50 transition-colors"
+        >
+          Decline Payment
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function MockCheckoutPage() {
+  return (
+    <>
+      <Head>
+        <title>Mock Checkout | Home Services</title>
+      </Head>
+
+      <div className="min-h-screen text-black flex items-center justify-center bg-gray-50 p-4">
+        <Suspense fallback={null}>
+          <MockCheckout />
+        </Suspense>
+      </div>
+    </>
+  );
+}
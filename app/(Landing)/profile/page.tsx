@@ -1,8 +1,13 @@
 "use client";
 import React, { useState, useEffect } from "react";
 import BottomNavigation from "../../components/BottomNavigation";
+import ActiveSessions from "../../components/ActiveSessions";
+import TransactionPinSettings from "../../components/TransactionPinSettings";
+import PhoneVerification from "../../components/PhoneVerification";
+import ChangePasswordForm from "../../components/ChangePasswordForm";
+import ChangeEmailForm from "../../components/ChangeEmailForm";
 import { useAuth } from "../../../context/AuthContext";
-import { httpClient } from "../../../utils/httpClient";
+import api from "../../../services/api";
 import toast, { Toaster } from "react-hot-toast";
 
 const UserProfile = () => {
@@ -17,9 +22,10 @@ const UserProfile = () => {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [userInfo, setUserInfo] = useState(null);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
   const [editingSections, setEditingSections] = useState({
     name: false,
-    email: false,
     phone: false,
     address: false,
     city: false,
@@ -31,24 +37,12 @@ const UserProfile = () => {
     try {
       setIsLoading(true);
 
-      // Add cache busting and no-cache headers
-      const timestamp = Date.now();
-      const response = await httpClient.get(
-        `/api/v1/user/user-info?_t=${timestamp}`,
-        {
-          headers: {
-            "Cache-Control": "no-cache",
-            Pragma: "no-cache",
-          },
-        }
-      );
-
-      console.log("=== API RESPONSE ===");
-      console.log("Full response:", response.data);
-
-      if (response.data.success) {
-        setUserInfo(response.data.data);
-        updateProfileDataFromUserInfo(response.data.data);
+      // The SDK bypasses caches for user info
+      const response = await api.user.getInfo();
+
+      if (response.success) {
+        setUserInfo(response.data);
+        updateProfileDataFromUserInfo(response.data);
       } else {
         toast.error("Failed to fetch user information");
       }
@@ -72,7 +66,7 @@ const UserProfile = () => {
             ? `${userData.firstName} ${userData.lastName}`
             : userData.username || "",
         email: userData.email || "",
-        phone: userData.phone || "",
+        phone: userData.mobile || userData.phone || "",
         address: userData.address || "",
         city: userData.city || "",
         state: userData.state || "",
@@ -143,12 +137,9 @@ const UserProfile = () => {
       console.log("Sending update data:", updateData);
 
       // Call your filldata API endpoint
-      const response = await httpClient.post(
-        "/api/v1/user/fill-data",
-        updateData
-      );
+      const response = await api.user.fillData(updateData);
 
-      if (response.data.success) {
+      if (response.success) {
         toast.success(
           `${
             section.charAt(0).toUpperCase() + section.slice(1)
@@ -167,14 +158,11 @@ const UserProfile = () => {
         // Refetch user info to get latest data
         await fetchUserInfo();
       } else {
-        toast.error(response.data.message || "Failed to update profile");
+        toast.error(response.message || "Failed to update profile");
       }
     } catch (error) {
       console.error("Error updating profile:", error);
-      const errorMessage =
-        error.response?.data?.message ||
-        error.message ||
-        "Failed to update profile";
+      const errorMessage = error.message || "Failed to update profile";
       toast.error(errorMessage);
     } finally {
       setIsLoading(false);
@@ -199,7 +187,7 @@ const UserProfile = () => {
       formData.append("user_id", userInfo?.user_id);
 
       // Call your image upload API endpoint here
-      // const response = await httpClient.post("/api/v1/user/upload-profile-image", formData);
+      // const response = await api.user.uploadProfileImage(formData);
 
       toast.success("Profile image updated successfully!");
 
@@ -218,7 +206,7 @@ const UserProfile = () => {
       setIsLoading(true);
 
       // Call your delete image API endpoint here
-      // const response = await httpClient.delete("/api/v1/user/delete-profile-image");
+      // const response = await api.user.deleteProfileImage();
 
       toast.success("Profile image deleted successfully!");
 
@@ -510,7 +498,10 @@ const UserProfile = () => {
                       </p>
                     </div>
                   </div>
-                  <button className="text-gray-500 hover:text-indigo-600">
+                  <button
+                    onClick={() => setIsChangingPassword(!isChangingPassword)}
+                    className="text-gray-500 hover:text-indigo-600"
+                  >
                     <svg
                       xmlns="http://www.w3.org/2000/svg"
                       className="h-5 w-5"
@@ -528,24 +519,94 @@ const UserProfile = () => {
                   </button>
                 </div>
                 <div className="bg-gray-50 p-4 rounded-md">
-                  <p className="text-gray-700">••••••••</p>
+                  {isChangingPassword ? (
+                    <ChangePasswordForm
+                      onDone={() => setIsChangingPassword(false)}
+                    />
+                  ) : (
+                    <p className="text-gray-700">••••••••</p>
+                  )}
                 </div>
               </div>
 
-              {/* Email */}
-              {renderEditableField(
-                "email",
-                profileData.email,
-                "Enter your email",
-                "email"
-              )}
+              {/* Transaction PIN */}
+              <TransactionPinSettings />
+
+              {/* Email; changing it needs a code sent to the new address */}
+              <div className="border-b pb-4">
+                <div className="flex justify-between items-center mb-2">
+                  <div className="flex items-center">
+                    <div className="mr-3">
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-6 w-6 text-gray-500"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                        />
+                      </svg>
+                    </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-800">Email</h4>
+                      <p className="text-sm text-gray-500">Change your email</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setIsChangingEmail(!isChangingEmail)}
+                    className="text-gray-500 hover:text-indigo-600"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-5 w-5"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      />
+                    </svg>
+                  </button>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-md">
+                  {isChangingEmail ? (
+                    <ChangeEmailForm
+                      onDone={(email) => {
+                        setIsChangingEmail(false);
+                        if (email) fetchUserInfo();
+                      }}
+                    />
+                  ) : (
+                    <p className="text-gray-700">
+                      {profileData.email || "Enter your email"}
+                    </p>
+                  )}
+                </div>
+              </div>
 
               {/* Phone */}
-              {renderEditableField(
-                "phone",
-                profileData.phone,
-                "Enter your phone number"
-              )}
+              <div>
+                {renderEditableField(
+                  "phone",
+                  profileData.phone,
+                  "Enter your phone number"
+                )}
+                {!editingSections.phone && (
+                  <PhoneVerification
+                    phone={profileData.phone}
+                    onVerified={fetchUserInfo}
+                  />
+                )}
+              </div>
 
               {/* Address */}
               {renderEditableField(
@@ -730,6 +791,8 @@ const UserProfile = () => {
               </div>
             </div>
           </div>
+
+          <ActiveSessions />
         </div>
       </div>
     </div>
@@ -3,6 +3,11 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Eye, EyeOff, CheckCircle2, Loader2 } from "lucide-react";
 import AuthService from "../../../../services/authService";
+import PasswordStrengthMeter from "../../../components/PasswordStrengthMeter";
+import {
+  MIN_PASSWORD_LENGTH,
+  getPasswordStrength,
+} from "../../../../utils/passwordStrength";
 
 export default function CreateNewPasswordPage() {
   const router = useRouter();
@@ -54,8 +59,9 @@ export default function CreateNewPasswordPage() {
       return;
     }
 
-    if (formData.password.length < 8) {
-      setError("Password must be at least 8 characters long.");
+    const { problem } = getPasswordStrength(formData.password);
+    if (problem) {
+      setError(problem);
       return;
     }
 
@@ -178,6 +184,7 @@ export default function CreateNewPasswordPage() {
                 )}
               </button>
             </div>
+            <PasswordStrengthMeter password={formData.password} />
 
             <div className="relative">
               <input
@@ -226,7 +233,8 @@ export default function CreateNewPasswordPage() {
           </form>
 
           <p className="text-sm text-[#373737B2] mt-4 text-center">
-            Password must be at least 8 characters long
+            Use at least {MIN_PASSWORD_LENGTH} characters, and avoid common
+            passwords
           </p>
         </div>
       </div>
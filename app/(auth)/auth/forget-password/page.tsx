@@ -4,6 +4,7 @@ import { Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import AuthService from "../../../../services/authService";
+import { VerificationCodeStore } from "../../../../utils/verificationCode";
 
 export default function ForgotPasswordPage() {
   const [email, setEmail] = useState("");
@@ -38,6 +39,11 @@ export default function ForgotPasswordPage() {
         if (typeof window !== "undefined") {
           localStorage.setItem("verification_email", email);
         }
+        VerificationCodeStore.recordSent(
+          "reset-password",
+          email,
+          response.data
+        );
       } else {
         setError(
           response.error ||
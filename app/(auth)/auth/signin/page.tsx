@@ -5,7 +5,12 @@ import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast, { Toaster } from "react-hot-toast";
-import AuthService from "../../../../services/authService";
+import { useAuth } from "../../../../context/AuthContext";
+import { getReturnTo } from "../../../../utils/authRedirect";
+import {
+  REMEMBER_ME_DAYS,
+  SHORT_SESSION_HOURS,
+} from "../../../../utils/sessionLifetime";
 
 export default function LoginPage() {
   const [formData, setFormData] = useState({
@@ -17,6 +22,7 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const router = useRouter();
+  const { login } = useAuth();
 
   const images = ["/hero-slid.png", "/hero-slide.png", "/hero-slidee.png"];
 
@@ -40,26 +46,10 @@ export default function LoginPage() {
     setIsLoading(true);
 
     try {
-      const response = await AuthService.login(
-        formData.email,
-        formData.password
-      );
-
-      if (response.success && response.data) {
-        // Extract token and user data
-        const { token, ...userData } = response.data;
-
-        // Set token in cookie
-        const cookieExpiry = rememberMe ? 30 * 24 * 60 * 60 : 24 * 60 * 60;
-        document.cookie = `auth_token=${token}; max-age=${cookieExpiry}; path=/; ${
-          process.env.NODE_ENV !== "development" ? "secure; " : ""
-        }samesite=strict`;
-
-        // Store user data in localStorage
-        if (typeof window !== "undefined") {
-          localStorage.setItem("user_data", JSON.stringify(userData));
-        }
+      // The session (tokens and user) is stored by AuthContext
+      const result = await login(formData.email, formData.password, rememberMe);
 
+      if (result.success) {
         // Show success toast
         toast.success("Login successful! Welcome back.", {
           duration: 3000,
@@ -67,19 +57,18 @@ export default function LoginPage() {
         });
 
         // Check if all required user data fields are filled
-        const isProfileComplete = checkProfileCompleteness(userData);
+        const isProfileComplete = checkProfileCompleteness(result.user || {});
 
-        // Navigate based on profile completeness
+        // Navigate based on profile completeness, back to where the user
+        // was sent here from if anywhere
         if (isProfileComplete) {
-          router.push("/");
+          router.push(getReturnTo("/"));
         } else {
           router.push("/complete-profile");
         }
       } else {
         const errorMessage =
-          response.error ||
-          response.message ||
-          "Login failed. Please check your credentials.";
+          result.message || "Login failed. Please check your credentials.";
         toast.error(errorMessage, {
           duration: 4000,
           position: "top-right",
@@ -267,7 +256,7 @@ export default function LoginPage() {
                   onChange={(e) => setRememberMe(e.target.checked)}
                   disabled={isLoading}
                 />
-                Remember me
+                Remember me for {REMEMBER_ME_DAYS} days
               </label>
               <Link
                 href="/auth/forget-password"
@@ -276,6 +265,11 @@ export default function LoginPage() {
                 Recovery Password?
               </Link>
             </div>
+            <p className="mb-3 sm:mb-4 w-[90%] max-w-[440px] sm:w-full mx-auto text-xs sm:text-sm text-gray-500">
+              {rememberMe
+                ? "Only use this on a device you don't share."
+                : `You'll be signed out when you close your browser, or after ${SHORT_SESSION_HOURS} hours.`}
+            </p>
 
             <button
               type="submit"
@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { toast } from "react-hot-toast";
 import AuthService from "../../../../services/authService";
+import { VerificationCodeStore } from "../../../../utils/verificationCode";
 
 export default function SignUpPage() {
   const [formData, setFormData] = useState({
@@ -59,6 +60,7 @@ export default function SignUpPage() {
         if (typeof window !== "undefined") {
           localStorage.setItem("verification_email", formData.email);
         }
+        VerificationCodeStore.recordSent("verify-email", formData.email);
 
         toast.success(
           "Account created successfully! Please verify your email.",
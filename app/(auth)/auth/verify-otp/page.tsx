@@ -4,9 +4,16 @@ import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import AuthService from "../../../../services/authService";
+import {
+  VerificationCodeStore,
+  formatCountdown,
+  getCodeStatus,
+} from "../../../../utils/verificationCode";
+
 export default function VerifyEmailPage() {
   const [verificationCode, setVerificationCode] = useState(["", "", "", ""]);
-  const [timer, setTimer] = useState(300);
+  const [codeState, setCodeState] = useState(null);
+  const [now, setNow] = useState(Date.now());
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isResending, setIsResending] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
@@ -33,17 +40,18 @@ export default function VerifyEmailPage() {
   }, []);
 
   useEffect(() => {
-    const timerInterval = setInterval(() => {
-      setTimer((prev) => (prev > 0 ? prev - 1 : 0));
-    }, 1000);
+    if (email) {
+      setCodeState(VerificationCodeStore.ensure("verify-email", email));
+    }
+  }, [email]);
+
+  useEffect(() => {
+    const timerInterval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timerInterval);
   }, []);
 
-  const formatTime = (seconds) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
-  };
+  const codeStatus = getCodeStatus(codeState, now);
+  const canResend = codeStatus.secondsToResend === 0 && !isResending;
 
   const handleInputChange = (index, value) => {
     if (value.length <= 1 && /^\d*$/.test(value)) {
@@ -68,15 +76,19 @@ export default function VerifyEmailPage() {
       return;
     }
 
+    if (!canResend) return;
+
     setIsResending(true);
     setError("");
 
     try {
-      // Call the forgot password endpoint to resend OTP
-      const response = await AuthService.forgotPassword(email);
+      const response = await AuthService.resendVerification(email);
 
       if (response.success) {
-        setTimer(300); // Reset timer to 5 minutes
+        setCodeState(
+          VerificationCodeStore.recordSent("verify-email", email, response.data)
+        );
+        setVerificationCode(["", "", "", ""]);
       } else {
         setError(
           response.error ||
@@ -86,6 +98,15 @@ export default function VerifyEmailPage() {
       }
     } catch (error) {
       console.error("Error resending code:", error);
+      if (error.status === 429) {
+        setCodeState(
+          VerificationCodeStore.recordRateLimited(
+            "verify-email",
+            email,
+            error.data?.retryAfterSeconds
+          )
+        );
+      }
       setError(error.message || "An error occurred while resending the code");
     } finally {
       setIsResending(false);
@@ -109,6 +130,16 @@ export default function VerifyEmailPage() {
       return;
     }
 
+    if (codeStatus.isExpired) {
+      setError("This code has expired. Please request a new one.");
+      return;
+    }
+
+    if (codeStatus.isLocked) {
+      setError("Too many incorrect attempts. Please request a new code.");
+      return;
+    }
+
     setIsVerifying(true);
     setError("");
 
@@ -116,6 +147,7 @@ export default function VerifyEmailPage() {
       const response = await AuthService.verifyEmail(email, otp);
 
       if (response.success) {
+        VerificationCodeStore.clear("verify-email", email);
         setIsModalOpen(true);
       } else {
         setError(
@@ -126,7 +158,24 @@ export default function VerifyEmailPage() {
       }
     } catch (error) {
       console.error("Verification error:", error);
-      setError(error.message || "An error occurred during verification");
+      if (error.status === 400) {
+        // A wrong code; only so many are allowed per code
+        const state = VerificationCodeStore.recordFailure(
+          "verify-email",
+          email
+        );
+        setCodeState(state);
+        const { attemptsLeft } = getCodeStatus(state);
+        setError(
+          attemptsLeft > 0
+            ? `${error.message || "Invalid code."} ${attemptsLeft} attempt${
+                attemptsLeft === 1 ? "" : "s"
+              } left.`
+            : "Too many incorrect attempts. Please request a new code."
+        );
+      } else {
+        setError(error.message || "An error occurred during verification");
+      }
     } finally {
       setIsVerifying(false);
     }
@@ -165,10 +214,18 @@ export default function VerifyEmailPage() {
           )}
 
           <p className="text-sm text-center mb-6 text-[#373737B2]">
-            Code expires in{" "}
-            <span className="font-medium text-[#3310C2]">
-              {formatTime(timer)}
-            </span>
+            {codeStatus.isExpired ? (
+              <span className="font-medium text-red-600">
+                This code has expired
+              </span>
+            ) : (
+              <>
+                Code expires in{" "}
+                <span className="font-medium text-[#3310C2]">
+                  {formatCountdown(codeStatus.secondsToExpiry)}
+                </span>
+              </>
+            )}
           </p>
 
           {error && (
@@ -214,17 +271,17 @@ export default function VerifyEmailPage() {
           <div className="text-center">
             <button
               onClick={handleResendCode}
-              disabled={timer > 0 || isResending}
+              disabled={!canResend}
               className={`text-sm font-medium ${
-                timer > 0 || isResending
+                !canResend
                   ? "text-gray-400 cursor-not-allowed"
                   : "text-[#3310C2] hover:text-[#3310C2]/80"
               }`}
             >
               {isResending
                 ? "Sending..."
-                : timer > 0
-                ? `Resend code in ${formatTime(timer)}`
+                : codeStatus.secondsToResend > 0
+                ? `Resend code in ${formatCountdown(codeStatus.secondsToResend)}`
                 : "Resend verification code"}
             </button>
           </div>
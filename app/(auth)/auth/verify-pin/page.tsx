@@ -4,11 +4,19 @@ import { useState, useEffect, useRef, Ref } from "react";
 import { useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
 import AuthService from "../../../../services/authService";
+import {
+  VerificationCodeStore,
+  formatCountdown,
+  getCodeStatus,
+} from "../../../../utils/verificationCode";
 
+// The password-reset PIN step (see forget-password); transaction PINs live
+// on the profile page
 export default function VerifyPinPage() {
   const [pin, setPin] = useState(["", "", "", ""]);
   const [email, setEmail] = useState("");
-  const [timer, setTimer] = useState(300);
+  const [codeState, setCodeState] = useState(null);
+  const [now, setNow] = useState(Date.now());
   const [isVerifying, setIsVerifying] = useState(false);
   const [isResending, setIsResending] = useState(false);
   const [error, setError] = useState("");
@@ -28,9 +36,7 @@ export default function VerifyPinPage() {
       setCurrentSlide((prev) => (prev + 1) % images.length);
     }, 3000);
 
-    const timerInterval = setInterval(() => {
-      setTimer((prev) => (prev > 0 ? prev - 1 : 0));
-    }, 1000);
+    const timerInterval = setInterval(() => setNow(Date.now()), 1000);
 
     if (inputRefs.current[0]) inputRefs.current[0].focus();
 
@@ -40,6 +46,12 @@ export default function VerifyPinPage() {
     };
   }, []);
 
+  useEffect(() => {
+    if (email) {
+      setCodeState(VerificationCodeStore.ensure("reset-password", email));
+    }
+  }, [email]);
+
   useEffect(() => {
     if (showToast) {
       const timer = setTimeout(() => {
@@ -50,11 +62,9 @@ export default function VerifyPinPage() {
     }
   }, [showToast, router]);
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
-  };
+  const codeStatus = getCodeStatus(codeState, now);
+  const canResend =
+    codeStatus.secondsToResend === 0 && !isVerifying && !isResending;
 
   const handlePinChange = (index: number, value: string) => {
     if (value.length <= 1 && /^\d*$/.test(value)) {
@@ -103,12 +113,23 @@ export default function VerifyPinPage() {
       return;
     }
 
+    if (codeStatus.isExpired) {
+      setError("This PIN has expired. Please request a new one.");
+      return;
+    }
+
+    if (codeStatus.isLocked) {
+      setError("Too many incorrect attempts. Please request a new PIN.");
+      return;
+    }
+
     setIsVerifying(true);
     setError("");
 
     try {
       const response = await AuthService.verifyPasswordPin(email, pinValue);
       if (response.success) {
+        VerificationCodeStore.clear("reset-password", email);
         setShowToast(true);
       } else {
         setError(
@@ -117,7 +138,24 @@ export default function VerifyPinPage() {
       }
     } catch (err: any) {
       console.error("PIN verification error:", err);
-      setError(err.message || "An error occurred during verification.");
+      if (err.status === 400) {
+        // A wrong PIN; only so many are allowed per PIN
+        const state = VerificationCodeStore.recordFailure(
+          "reset-password",
+          email
+        );
+        setCodeState(state);
+        const { attemptsLeft } = getCodeStatus(state);
+        setError(
+          attemptsLeft > 0
+            ? `${err.message || "Invalid PIN."} ${attemptsLeft} attempt${
+                attemptsLeft === 1 ? "" : "s"
+              } left.`
+            : "Too many incorrect attempts. Please request a new PIN."
+        );
+      } else {
+        setError(err.message || "An error occurred during verification.");
+      }
     } finally {
       setIsVerifying(false);
     }
@@ -129,13 +167,21 @@ export default function VerifyPinPage() {
       return;
     }
 
+    if (!canResend) return;
+
     setIsResending(true);
     setError("");
 
     try {
       const response = await AuthService.forgotPassword(email);
       if (response.success) {
-        setTimer(300);
+        setCodeState(
+          VerificationCodeStore.recordSent(
+            "reset-password",
+            email,
+            response.data
+          )
+        );
         setPin(["", "", "", ""]);
         if (inputRefs.current[0]) inputRefs.current[0].focus();
       } else {
@@ -143,6 +189,15 @@ export default function VerifyPinPage() {
       }
     } catch (err: any) {
       console.error("Error resending PIN:", err);
+      if (err.status === 429) {
+        setCodeState(
+          VerificationCodeStore.recordRateLimited(
+            "reset-password",
+            email,
+            err.data?.retryAfterSeconds
+          )
+        );
+      }
       setError(err.message || "An error occurred while resending the PIN.");
     } finally {
       setIsResending(false);
@@ -197,10 +252,18 @@ export default function VerifyPinPage() {
           )}
 
           <p className="text-sm text-center mb-6 text-[#373737B2]">
-            PIN expires in{" "}
-            <span className="font-medium text-[#3310C2]">
-              {formatTime(timer)}
-            </span>
+            {codeStatus.isExpired ? (
+              <span className="font-medium text-red-600">
+                This PIN has expired
+              </span>
+            ) : (
+              <>
+                PIN expires in{" "}
+                <span className="font-medium text-[#3310C2]">
+                  {formatCountdown(codeStatus.secondsToExpiry)}
+                </span>
+              </>
+            )}
           </p>
 
           {error && (
@@ -249,14 +312,18 @@ export default function VerifyPinPage() {
           <div className="text-center">
             <button
               onClick={handleResendPin}
-              disabled={timer > 0 || isVerifying || isResending}
+              disabled={!canResend}
               className={`text-sm font-medium ${
-                timer > 0 || isVerifying || isResending
+                !canResend
                   ? "text-gray-400 cursor-not-allowed"
                   : "text-[#3310C2]"
               }`}
             >
-              Resend PIN
+              {isResending
+                ? "Sending..."
+                : codeStatus.secondsToResend > 0
+                ? `Resend PIN in ${formatCountdown(codeStatus.secondsToResend)}`
+                : "Resend PIN"}
             </button>
           </div>
         </div>
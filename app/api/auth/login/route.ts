@@ -0,0 +1,65 @@
+// app/api/auth/login/route.ts
+import { NextResponse } from "next/server";
+import {
+  createSessionPolicy,
+  fetchBackend,
+  readBackendJson,
+  setSessionCookies,
+} from "../../../../utils/session";
+import { getSessionMode } from "../../../../utils/sessionLifetime";
+
+// Signs in against the API and keeps the tokens in httpOnly cookies; only
+// the user profile is returned to the browser
+export async function POST(request: Request) {
+  let credentials;
+  try {
+    credentials = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, message: "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  const { email, password, rememberMe } = credentials;
+
+  let response;
+  try {
+    response = await fetchBackend("/api/v1/auth/login", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Lets the API label the session with the user's device
+        "User-Agent": request.headers.get("user-agent") || "",
+      },
+      body: JSON.stringify({ email, password }),
+    });
+  } catch (error) {
+    console.error("Error reaching the login endpoint:", error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the server" },
+      { status: 502 }
+    );
+  }
+
+  const result = await readBackendJson(response);
+  if (!response.ok || !result.success) {
+    return NextResponse.json(result, { status: response.status });
+  }
+
+  const { token, refreshToken, ...user } = result.data || {};
+  if (!token) {
+    return NextResponse.json(
+      { success: false, message: "Unexpected response from the server" },
+      { status: 502 }
+    );
+  }
+
+  const nextResponse = NextResponse.json({ ...result, data: user });
+  setSessionCookies(
+    nextResponse,
+    { token, refreshToken },
+    createSessionPolicy(getSessionMode(!!rememberMe))
+  );
+  return nextResponse;
+}
@@ -0,0 +1,41 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AUTH_COOKIE,
+  REFRESH_COOKIE,
+  clearSessionCookies,
+  fetchBackend,
+} from "../../../../utils/session";
+
+// Revokes the session on the API, then clears the cookies, which can only be
+// done here since they're httpOnly
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (token || refreshToken) {
+    try {
+      // The refresh token identifies the session even once the access token
+      // has expired
+      const response = await fetchBackend(
+        "/api/v1/auth/logout",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        },
+        token
+      );
+      if (!response.ok && response.status !== 401) {
+        console.error(`Logout was rejected with status ${response.status}`);
+      }
+    } catch (error) {
+      // Sign out of this browser anyway; the session expires on its own
+      console.error("Error reaching the logout endpoint:", error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true, data: null });
+  clearSessionCookies(response);
+  return response;
+}
@@ -0,0 +1,66 @@
+// app/api/auth/refresh/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  REFRESH_COOKIE,
+  clearSessionCookies,
+  fetchBackend,
+  getSessionPolicy,
+  isSessionExpired,
+  readBackendJson,
+  setSessionCookies,
+} from "../../../../utils/session";
+
+// Renews the access cookie from the refresh cookie, keeping the lifetime
+// chosen at sign-in. A session that can't be renewed is cleared, so the next
+// page load goes to sign-in.
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  const policy = getSessionPolicy(request);
+
+  const endSession = (status: number, message: string) => {
+    const response = NextResponse.json({ success: false, message }, { status });
+    clearSessionCookies(response);
+    return response;
+  };
+
+  if (!refreshToken || isSessionExpired(policy)) {
+    return endSession(401, "Session expired");
+  }
+
+  let response;
+  try {
+    response = await fetchBackend("/api/v1/auth/refresh-token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Lets the API label the session with the user's device
+        "User-Agent": request.headers.get("user-agent") || "",
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch (error) {
+    // The session may still be good; let the client try again later
+    console.error("Error reaching the refresh endpoint:", error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the server" },
+      { status: 502 }
+    );
+  }
+
+  const result = await readBackendJson(response);
+  if (!response.ok || !result.success || !result.data?.token) {
+    return endSession(401, result.message || "Session expired");
+  }
+
+  const nextResponse = NextResponse.json({ success: true, data: null });
+  setSessionCookies(
+    nextResponse,
+    {
+      token: result.data.token,
+      // Keep the current refresh token unless the API rotated it
+      refreshToken: result.data.refreshToken || refreshToken,
+    },
+    policy
+  );
+  return nextResponse;
+}
@@ -0,0 +1,52 @@
+// app/api/payments/mock/route.ts
+import { NextResponse } from "next/server";
+import {
+  isMockGatewayEnabled,
+  signPayload,
+} from "../../../../utils/paymentWebhooks";
+
+// Sends a signed webhook for the mock gateway, like a real gateway would
+export async function POST(request: Request) {
+  if (!isMockGatewayEnabled()) {
+    return NextResponse.json(
+      { success: false, message: "Mock payments are disabled" },
+      { status: 404 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    body = null;
+  }
+  if (!body?.reference) {
+    return NextResponse.json(
+      { success: false, message: "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  const { reference, approved, amount } = body;
+  const status = approved ? "paid" : "failed";
+  const rawBody = JSON.stringify({
+    id: `mock:${reference}:${status}`,
+    reference,
+    status,
+    amount,
+  });
+
+  const response = await fetch(
+    new URL("/api/payments/webhook/mock", request.url),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-mock-signature": signPayload("mock", rawBody),
+      },
+      body: rawBody,
+    }
+  );
+
+  return NextResponse.json(await response.json(), { status: response.status });
+}
@@ -0,0 +1,60 @@
+// app/api/payments/webhook/[provider]/route.ts
+import { NextResponse } from "next/server";
+import {
+  applyPaymentEvent,
+  parsePaymentEvent,
+  verifySignature,
+  SIGNATURE_HEADERS,
+} from "../../../../../utils/paymentWebhooks";
+
+// Receives signed payment webhooks and records the result on the booking
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  if (!SIGNATURE_HEADERS[provider]) {
+    return NextResponse.json(
+      { success: false, message: "Unknown payment provider" },
+      { status: 404 }
+    );
+  }
+
+  // Signatures are computed over the exact bytes that were sent
+  const rawBody = await request.text();
+  const signature = request.headers.get(SIGNATURE_HEADERS[provider]);
+  if (!verifySignature(provider, rawBody, signature)) {
+    return NextResponse.json(
+      { success: false, message: "Invalid signature" },
+      { status: 401 }
+    );
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, message: "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  const event = parsePaymentEvent(provider, payload);
+  if (!event) {
+    // Acknowledge events we don't handle so the gateway stops retrying
+    return NextResponse.json({ success: true, data: { applied: false } });
+  }
+
+  try {
+    const result = await applyPaymentEvent(event);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error applying payment webhook:", error);
+    // A 5xx makes the gateway retry the delivery later
+    return NextResponse.json(
+      { success: false, message: "Unable to update payment" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// app/api/phone/send-code/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fetchSessionUserId } from "../../../../utils/session";
+import { normalizePhone } from "../../../../utils/phone";
+import {
+  PHONE_CHALLENGE_COOKIE,
+  PHONE_CODE_TTL_MS,
+  PHONE_RESEND_COOLDOWN_MS,
+  clearPhoneChallenge,
+  createPhoneChallenge,
+  getPhoneRetryAfter,
+} from "../../../../utils/phoneVerification";
+import { getSmsProvider } from "../../../../utils/sms";
+
+// The address the hosting platform saw the request come from. x-real-ip is
+// set by the platform or reverse proxy, which overwrites what the client sent;
+// without it, only the last x-forwarded-for hop was added by our own proxy.
+const getClientIp = (request: NextRequest) =>
+  request.headers.get("x-real-ip")?.trim() ||
+  request.headers.get("x-forwarded-for")?.split(",").pop().trim() ||
+  null;
+
+// Texts a verification code to the signed-in user's phone number
+export async function POST(request: NextRequest) {
+  // Every text costs money, so only sessions the API accepts may send one
+  const userId = await fetchSessionUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Please sign in again" },
+      { status: 401 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    body = {};
+  }
+
+  const phone = normalizePhone(body.phone);
+  if (!phone) {
+    return NextResponse.json(
+      { success: false, message: "Please enter a valid phone number" },
+      { status: 400 }
+    );
+  }
+
+  // Limited per number, and per account and address across numbers
+  const ip = getClientIp(request);
+  const senders = [`user:${userId}`, ...(ip ? [`ip:${ip}`] : [])];
+  const retryAfter = getPhoneRetryAfter(phone, senders);
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Please wait before requesting another code",
+        data: { retryAfterSeconds: Math.ceil(retryAfter / 1000) },
+      },
+      { status: 429 }
+    );
+  }
+
+  const { id, code, expiresAt } = createPhoneChallenge(
+    phone,
+    userId,
+    senders,
+    request.cookies.get(PHONE_CHALLENGE_COOKIE)?.value
+  );
+
+  try {
+    await getSmsProvider().send(
+      phone,
+      `Your Klinners verification code is ${code}. It expires in ${
+        PHONE_CODE_TTL_MS / 60000
+      } minutes.`
+    );
+  } catch (error) {
+    console.error("Error sending verification SMS:", error);
+    clearPhoneChallenge(id);
+    return NextResponse.json(
+      { success: false, message: "We couldn't send a code to that number" },
+      { status: 502 }
+    );
+  }
+
+  const response = NextResponse.json({
+    success: true,
+    data: {
+      expiresAt: new Date(expiresAt).toISOString(),
+      retryAfterSeconds: PHONE_RESEND_COOLDOWN_MS / 1000,
+    },
+  });
+  response.cookies.set(PHONE_CHALLENGE_COOKIE, id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV !== "development",
+    sameSite: "lax",
+    path: "/api/phone",
+    maxAge: PHONE_CODE_TTL_MS / 1000,
+  });
+  return response;
+}
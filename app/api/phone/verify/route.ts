@@ -0,0 +1,94 @@
+// app/api/phone/verify/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AUTH_COOKIE,
+  fetchBackend,
+  fetchSessionUserId,
+  readBackendJson,
+} from "../../../../utils/session";
+import {
+  PHONE_CHALLENGE_COOKIE,
+  checkPhoneCode,
+  clearPhoneChallenge,
+} from "../../../../utils/phoneVerification";
+
+const CHECK_FAILURES = {
+  missing: "Please request a new code",
+  expired: "This code has expired. Please request a new one",
+  locked: "Too many incorrect attempts. Please request a new code",
+  invalid: "Incorrect code",
+};
+
+// Checks the SMS code, then records the number as verified on the API
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  // The code must be entered by the account it was sent for
+  const userId = await fetchSessionUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Please sign in again" },
+      { status: 401 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    body = {};
+  }
+
+  const challengeId = request.cookies.get(PHONE_CHALLENGE_COOKIE)?.value;
+  const result = checkPhoneCode(challengeId, userId, String(body.code || ""));
+  if (result.ok === false) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: CHECK_FAILURES[result.reason],
+        data: { reason: result.reason, attemptsLeft: result.attemptsLeft },
+      },
+      { status: 400 }
+    );
+  }
+
+  let response;
+  try {
+    // The key tells the API the number was checked by us, not just claimed
+    response = await fetchBackend(
+      "/api/v1/user/verify-phone",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": process.env.PHONE_VERIFICATION_API_KEY || "",
+        },
+        body: JSON.stringify({ mobile: result.phone }),
+      },
+      token
+    );
+  } catch (error) {
+    console.error("Error recording the verified phone:", error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the server" },
+      { status: 502 }
+    );
+  }
+
+  // The code stays valid until the API has the number, so a retry after a
+  // token refresh still works
+  if (!response.ok) {
+    const failure = await readBackendJson(response);
+    return NextResponse.json(failure, { status: response.status });
+  }
+
+  clearPhoneChallenge(challengeId);
+  const nextResponse = NextResponse.json({
+    success: true,
+    data: { mobile: result.phone, mobileVerified: true },
+  });
+  nextResponse.cookies.set(PHONE_CHALLENGE_COOKIE, "", {
+    path: "/api/phone",
+    maxAge: 0,
+  });
+  return nextResponse;
+}
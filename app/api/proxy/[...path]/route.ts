@@ -0,0 +1,143 @@
+// app/api/proxy/[...path]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AUTH_COOKIE,
+  clearSessionCookies,
+  fetchBackend,
+  getSessionPolicy,
+  isSessionExpired,
+} from "../../../../utils/session";
+
+// Request headers the API needs; cookies and the like stay on this side
+const FORWARDED_HEADERS = [
+  "accept",
+  "cache-control",
+  "content-type",
+  "idempotency-key",
+  "pragma",
+  // Keeps the device on the active sessions list up to date
+  "user-agent",
+];
+
+// These return raw tokens, so they only go through app/api/auth
+const BLOCKED_PATHS = ["api/v1/auth/login", "api/v1/auth/refresh-token"];
+
+// Session tokens live in httpOnly cookies and never reach the browser
+const TOKEN_FIELDS = ["token", "refreshToken"];
+
+// The API matches paths loosely, so compare the form it would route:
+// decoded, lowercase and without empty segments or a trailing "/"
+const normalizePath = (path: string[]) =>
+  path
+    .flatMap((segment) => decodeURIComponent(segment).split("/"))
+    .filter(Boolean)
+    .join("/")
+    .toLowerCase();
+
+const stripTokens = (value) => {
+  if (Array.isArray(value)) {
+    return value.map(stripTokens);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !TOKEN_FIELDS.includes(key))
+        .map(([key, field]) => [key, stripTokens(field)])
+    );
+  }
+  return value;
+};
+
+const notFound = () =>
+  NextResponse.json({ success: false, message: "Not found" }, { status: 404 });
+
+// Forwards browser calls to the API with the token from the session cookie
+async function forward(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const target = path.join("/");
+  let normalizedTarget;
+  try {
+    normalizedTarget = normalizePath(path);
+  } catch {
+    // Malformed percent-encoding
+    return notFound();
+  }
+  if (BLOCKED_PATHS.includes(normalizedTarget)) {
+    return notFound();
+  }
+
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  if (token && isSessionExpired(getSessionPolicy(request))) {
+    // Past the lifetime chosen at sign-in, however long the token has left
+    const response = NextResponse.json(
+      { success: false, message: "Session expired" },
+      { status: 401 }
+    );
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const headers = new Headers();
+  FORWARDED_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  });
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  let response;
+  try {
+    response = await fetchBackend(
+      `/${target}${request.nextUrl.search}`,
+      {
+        method: request.method,
+        headers,
+        // Passed through as bytes so multipart boundaries survive
+        body: hasBody ? await request.arrayBuffer() : undefined,
+      },
+      token
+    );
+  } catch (error) {
+    console.error(`Error proxying ${request.method} /${target}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the server" },
+      { status: 502 }
+    );
+  }
+
+  const contentType =
+    response.headers.get("content-type") || "application/json";
+  if (!contentType.includes("application/json")) {
+    return new NextResponse(response.body, {
+      status: response.status,
+      headers: { "Content-Type": contentType },
+    });
+  }
+
+  // A backstop in case a token-issuing route slips past the blocklist
+  const text = await response.text();
+  let body = text;
+  try {
+    body = JSON.stringify(stripTokens(JSON.parse(text)));
+  } catch {
+    // Not valid JSON after all; pass it on as sent
+  }
+
+  return new NextResponse(body, {
+    status: response.status,
+    headers: { "Content-Type": contentType },
+  });
+}
+
+export {
+  forward as GET,
+  forward as POST,
+  forward as PUT,
+  forward as PATCH,
+  forward as DELETE,
+};
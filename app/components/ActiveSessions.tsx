@@ -0,0 +1,133 @@
+// components/ActiveSessions.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+
+// Seen this recently counts as active now
+const ACTIVE_NOW_MS = 5 * 60 * 1000;
+
+const formatLastSeen = (lastSeenAt) => {
+  const seenAt = new Date(lastSeenAt);
+  if (Number.isNaN(seenAt.getTime())) {
+    return "Unknown";
+  }
+  if (Date.now() - seenAt.getTime() < ACTIVE_NOW_MS) {
+    return "Active now";
+  }
+  return `Last seen ${seenAt.toLocaleString()}`;
+};
+
+// The devices signed in to this account, each of which can be signed out
+export default function ActiveSessions() {
+  const { logout, logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState(null);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await AuthService.getSessions(true);
+      if (response.success) {
+        setSessions(response.data);
+      }
+    } catch (error) {
+      console.error("Error loading sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const revoke = async (session) => {
+    setBusyId(session.id);
+    try {
+      if (session.current) {
+        await logout();
+        return;
+      }
+      await AuthService.revokeSession(session.id, true);
+      setSessions((current) => current.filter(({ id }) => id !== session.id));
+    } catch (error) {
+      console.error("Error revoking session:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const signOutEverywhere = async () => {
+    if (
+      !window.confirm(
+        "Sign out of every device, including this one? You'll need to sign in again."
+      )
+    ) {
+      return;
+    }
+
+    setBusyId("all");
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      console.error("Error signing out everywhere:", error);
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">Security</h2>
+        <button
+          onClick={signOutEverywhere}
+          disabled={busyId !== null || isLoading}
+          className="px-4 py-2 bg-white border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+        >
+          Sign out everywhere
+        </button>
+      </div>
+
+      <h4 className="font-semibold text-gray-800 mb-2">Active sessions</h4>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions found.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-4"
+            >
+              <div>
+                <p className="font-medium text-gray-800">
+                  {session.device || "Unknown device"}
+                  {session.browser ? ` · ${session.browser}` : ""}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {formatLastSeen(session.lastSeenAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => revoke(session)}
+                disabled={busyId !== null}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                {busyId === session.id ? "Signing out..." : "Sign out"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+// components/AwaitingPaymentBookings.tsx
+"use client";
+
+import { useState } from "react";
+import { startBookingPayment } from "../../utils/payments";
+import TransactionPinModal from "./TransactionPinModal";
+
+const PAID_STATUSES = ["success", "paid"];
+
+// Bookings that were created but never paid for
+export const getAwaitingPayment = (bookings) =>
+  bookings.filter(
+    (booking) =>
+      booking.payment_status &&
+      !PAID_STATUSES.includes(booking.payment_status) &&
+      booking.status !== "cancelled"
+  );
+
+export default function AwaitingPaymentBookings({ bookings, returnPath }) {
+  const [payingId, setPayingId] = useState(null);
+  // The booking waiting on the transaction PIN
+  const [pinBooking, setPinBooking] = useState(null);
+  const awaiting = getAwaitingPayment(bookings);
+
+  if (awaiting.length === 0) {
+    return null;
+  }
+
+  // Resume checkout with a new payment attempt for the existing booking,
+  // once the PIN has been verified
+  const handleResume = async (pinToken: string) => {
+    const booking = pinBooking;
+    setPinBooking(null);
+    setPayingId(booking.id);
+
+    try {
+      const { provider, session } = await startBookingPayment({
+        bookingId: booking.id,
+        amount: booking.amount,
+        provider: booking.payment_provider,
+        returnPath,
+        pinToken,
+      });
+      provider.redirect(session);
+    } catch (error) {
+      console.error("Error resuming payment:", error);
+      alert(`Unable to start payment: ${error.message}`);
+      setPayingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Awaiting payment
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        These bookings are reserved but won&apos;t be confirmed until they are
+        paid.
+      </p>
+      <div className="space-y-3">
+        {awaiting.map((booking) => (
+          <div
+            key={booking.id}
+            className="bg-white rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+          >
+            <div>
+              <p className="font-medium text-gray-900">
+                {booking.service_type || "House Cleaning"}
+              </p>
+              <p className="text-sm text-gray-600">
+                {booking.booking_date
+                  ? new Date(booking.booking_date).toLocaleDateString()
+                  : "Date TBD"}{" "}
+                · ₦{booking.amount?.toLocaleString() || "0"}
+              </p>
+            </div>
+            <button
+              onClick={() => setPinBooking(booking)}
+              disabled={payingId !== null}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:bg-gray-300"
+            >
+              {payingId === booking.id
+                ? "Starting payment..."
+                : "Complete Payment"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <TransactionPinModal
+        isOpen={!!pinBooking}
+        onClose={() => setPinBooking(null)}
+        onVerified={handleResume}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+// components/ChangeEmailForm.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import {
+  VerificationCodeStore,
+  formatCountdown,
+  getCodeStatus,
+} from "../../utils/verificationCode";
+
+// Emailed codes are 4 digits, as on the sign-up verification page
+const CODE_LENGTH = 4;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Move the account to a new email address. The old address keeps working
+// until the code sent to the new one is entered. No <form>, since it also
+// sits inside the complete-profile form.
+export default function ChangeEmailForm({ onDone }) {
+  const { user, updateUser } = useAuth();
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeState, setCodeState] = useState(null);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!codeState) return;
+    const timerInterval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timerInterval);
+  }, [codeState]);
+
+  const address = newEmail.trim().toLowerCase();
+  const codeStatus = getCodeStatus(codeState, now);
+
+  const sendCode = async () => {
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await AuthService.requestEmailChange(
+        address,
+        password,
+        true
+      );
+      if (!response.success) {
+        setError(response.message || "We couldn't send a code.");
+        return;
+      }
+      setCodeState(
+        VerificationCodeStore.recordSent("change-email", address, response.data)
+      );
+      setCode("");
+    } catch (error) {
+      console.error("Error requesting email change:", error);
+      if (error.status === 429) {
+        setCodeState(
+          VerificationCodeStore.recordRateLimited(
+            "change-email",
+            address,
+            error.data?.retryAfterSeconds
+          )
+        );
+      }
+      setError(error.message || "We couldn't send a code. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRequest = () => {
+    if (!EMAIL_PATTERN.test(address)) {
+      setError("Enter a valid email address.");
+      return;
+    }
+    if (!password) {
+      setError("Enter your current password.");
+      return;
+    }
+    if (address === user?.email?.toLowerCase()) {
+      setError("That's already your email address.");
+      return;
+    }
+
+    // A code sent moments ago is still the one to enter
+    const pending = VerificationCodeStore.get("change-email", address);
+    if (getCodeStatus(pending).secondsToResend > 0) {
+      setCodeState(pending);
+      return;
+    }
+    sendCode();
+  };
+
+  const handleConfirm = async () => {
+    if (!new RegExp(`^\\d{${CODE_LENGTH}}$`).test(code)) {
+      setError(`Enter the ${CODE_LENGTH}-digit code we emailed you.`);
+      return;
+    }
+    if (codeStatus.isExpired) {
+      setError("This code has expired. Please request a new one.");
+      return;
+    }
+    if (codeStatus.isLocked) {
+      setError("Too many incorrect attempts. Please request a new code.");
+      return;
+    }
+
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await AuthService.confirmEmailChange(
+        address,
+        code,
+        true
+      );
+      if (!response.success) {
+        setError(response.message || "We couldn't verify that code.");
+        return;
+      }
+      VerificationCodeStore.clear("change-email", address);
+      // Other tabs pick up the new address from the broadcast
+      updateUser(response.data);
+      onDone(response.data.email);
+    } catch (error) {
+      console.error("Error confirming email change:", error);
+      if (error.status === 400) {
+        const state = VerificationCodeStore.recordFailure(
+          "change-email",
+          address
+        );
+        setCodeState(state);
+        const { attemptsLeft } = getCodeStatus(state);
+        setError(
+          attemptsLeft > 0
+            ? `${error.message || "Invalid code."} ${attemptsLeft} attempt${
+                attemptsLeft === 1 ? "" : "s"
+              } left.`
+            : "Too many incorrect attempts. Please request a new code."
+        );
+      } else {
+        setError(error.message || "We couldn't verify that code.");
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Enter runs this step instead of submitting the surrounding form
+  const submitOnEnter = (action) => (e) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (!isBusy) action();
+    }
+  };
+
+  const startOver = () => {
+    setCodeState(null);
+    setCode("");
+    setError("");
+  };
+
+  const inputClass =
+    "w-full bg-white border border-gray-300 text-gray-700 p-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  if (codeState) {
+    return (
+      <div className="max-w-sm space-y-3">
+        <p className="text-sm text-gray-700">
+          Enter the code we sent to{" "}
+          <span className="font-medium">{address}</span>. Until then you'll keep
+          signing in with {user?.email}.
+        </p>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          onKeyDown={submitOnEnter(handleConfirm)}
+          disabled={isBusy}
+          placeholder="Email code"
+          className={`${inputClass} tracking-widest`}
+        />
+        <p className="text-xs text-gray-500">
+          {codeStatus.isExpired
+            ? "This code has expired."
+            : `Code expires in ${formatCountdown(codeStatus.secondsToExpiry)}`}
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isBusy}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isBusy ? "Verifying..." : "Confirm"}
+          </button>
+          <button
+            type="button"
+            onClick={sendCode}
+            disabled={isBusy || codeStatus.secondsToResend > 0}
+            className="text-sm text-indigo-600 disabled:text-gray-400"
+          >
+            {codeStatus.secondsToResend > 0
+              ? `Resend in ${formatCountdown(codeStatus.secondsToResend)}`
+              : "Resend code"}
+          </button>
+          <button
+            type="button"
+            onClick={startOver}
+            disabled={isBusy}
+            className="text-sm text-gray-600"
+          >
+            Use a different address
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-sm space-y-3">
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          New email address
+        </span>
+        <input
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          onKeyDown={submitOnEnter(handleRequest)}
+          autoComplete="email"
+          disabled={isBusy}
+          className={inputClass}
+        />
+      </label>
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          Current password
+        </span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={submitOnEnter(handleRequest)}
+          autoComplete="current-password"
+          disabled={isBusy}
+          className={inputClass}
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-xs text-gray-500">
+        We'll email a code to the new address. Your current address gets a
+        notice once the change is made.
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleRequest}
+          disabled={isBusy}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isBusy ? "Sending..." : "Send code"}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDone(null)}
+          disabled={isBusy}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+// components/ChangePasswordForm.tsx
+"use client";
+
+import { useState } from "react";
+import { Eye, EyeOff } from "lucide-react";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import PasswordStrengthMeter from "./PasswordStrengthMeter";
+import { getPasswordStrength } from "../../utils/passwordStrength";
+
+const FIELDS = [
+  { name: "currentPassword", label: "Current password" },
+  { name: "newPassword", label: "New password" },
+  { name: "confirmPassword", label: "Confirm new password" },
+];
+
+// Change the password of the signed-in user; other devices are signed out
+export default function ChangePasswordForm({ onDone }) {
+  const { user } = useAuth();
+  const [form, setForm] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleChange = (e) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+
+    const { problem } = getPasswordStrength(form.newPassword, user);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (form.newPassword !== form.confirmPassword) {
+      setError("The new passwords don't match.");
+      return;
+    }
+    if (form.newPassword === form.currentPassword) {
+      setError("Your new password must be different from the current one.");
+      return;
+    }
+
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await AuthService.updatePassword(
+        form.currentPassword,
+        form.newPassword,
+        true
+      );
+      if (!response.success) {
+        setError(response.message || "We couldn't change your password.");
+        return;
+      }
+      onDone();
+    } catch (error) {
+      console.error("Error changing password:", error);
+      setError(error.message || "We couldn't change your password.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm space-y-4">
+      {FIELDS.map(({ name, label }) => (
+        <label key={name} className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            {label}
+          </span>
+          <input
+            type={showPasswords ? "text" : "password"}
+            name={name}
+            value={form[name]}
+            onChange={handleChange}
+            autoComplete={
+              name === "currentPassword" ? "current-password" : "new-password"
+            }
+            disabled={isBusy}
+            required
+            className="w-full bg-white border border-gray-300 text-gray-700 p-2 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {name === "newPassword" && (
+            <PasswordStrengthMeter password={form.newPassword} user={user} />
+          )}
+        </label>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => setShowPasswords(!showPasswords)}
+        className="flex items-center text-sm text-gray-600"
+      >
+        {showPasswords ? (
+          <EyeOff className="w-4 h-4 mr-1" />
+        ) : (
+          <Eye className="w-4 h-4 mr-1" />
+        )}
+        {showPasswords ? "Hide passwords" : "Show passwords"}
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-xs text-gray-500">
+        Changing your password signs you out on your other devices.
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isBusy ? "Updating..." : "Update Password"}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={isBusy}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
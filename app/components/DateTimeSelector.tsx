@@ -1,28 +1,146 @@
 // components/DateTimeSelector.js
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-
-export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
+import { useAuth } from "../../context/AuthContext";
+import BookingService from "../../services/bookingService";
+import { BookingDraftStore, SERVICE_NAMES } from "../../utils/bookingDraft";
+import { toDateKey } from "../../utils/bookingSeries";
+import { buildSignInUrl, getCurrentPath } from "../../utils/authRedirect";
+
+// How often open slots are re-checked while the selector is open
+const SLOT_REFRESH_INTERVAL = 30000;
+
+const formatSlotLabel = (time) => {
+  const [hours, minutes] = time.split(":");
+  const hour = parseInt(hours, 10);
+  const suffix = hour >= 12 ? "PM" : "AM";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${minutes} ${suffix}`;
+};
+
+// Slots starting before now + lead time cannot be booked
+const isWithinLeadTime = (date, time, minLeadHours) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const slotStart = new Date(date);
+  slotStart.setHours(hours, minutes, 0, 0);
+  return slotStart.getTime() < Date.now() + minLeadHours * 60 * 60 * 1000;
+};
+
+export default function DateTimeSelector({ isOpen, onClose, serviceType }) {
   const router = useRouter();
+  const { userId, loading: authLoading } = useAuth();
   const [selectedDate, setSelectedDate] = useState(null);
   const [selectedTime, setSelectedTime] = useState(null);
   const [location, setLocation] = useState("");
   const [availableTimes, setAvailableTimes] = useState([]);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [isLoading, setIsLoading] = useState(false);
+  const [blackoutDates, setBlackoutDates] = useState([]);
+  const [minLeadHours, setMinLeadHours] = useState(0);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsError, setSlotsError] = useState(null);
+  const [slotNotice, setSlotNotice] = useState(null);
+  const [submitError, setSubmitError] = useState(null);
+  // Numbers slot requests; only the latest one may update the slots
+  const slotRequestRef = useRef(0);
+
+  // Load blackout dates and lead time for the month being viewed
+  useEffect(() => {
+    if (!isOpen || !serviceType) return;
+
+    const month = toDateKey(currentMonth).slice(0, 7);
+    BookingService.getBlackoutDates({ serviceType, month })
+      .then((response) => {
+        if (response.success) {
+          setBlackoutDates(response.data?.dates || []);
+          setMinLeadHours(response.data?.minLeadHours || 0);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading blackout dates:", error);
+      });
+  }, [isOpen, serviceType, currentMonth]);
+
+  // Load slots for the selected date and area from the availability API
+  const loadSlots = useCallback(async () => {
+    const requestId = ++slotRequestRef.current;
+    if (!serviceType || !selectedDate || !location.trim()) {
+      setAvailableTimes([]);
+      setSlotsLoading(false);
+      return [];
+    }
+
+    // An older date's reply arriving late must not replace these slots; the
+    // caller still gets the times it asked for
+    const isLatest = () => requestId === slotRequestRef.current;
+
+    setSlotsLoading(true);
+    setSlotsError(null);
+
+    try {
+      const response = await BookingService.getAvailability({
+        serviceType,
+        date: toDateKey(selectedDate),
+        area: location.trim(),
+      });
+      const leadHours = response.data?.minLeadHours ?? minLeadHours;
+      const times = (response.data?.slots || []).map((slot) => {
+        const tooSoon = isWithinLeadTime(selectedDate, slot.time, leadHours);
+        return {
+          label: formatSlotLabel(slot.time),
+          value: slot.time,
+          available: slot.available && !tooSoon,
+          reason: tooSoon ? "lead-time" : slot.available ? null : "full",
+        };
+      });
+
+      if (isLatest()) {
+        setAvailableTimes(times);
+      }
+      return times;
+    } catch (error) {
+      console.error("Error loading time slots:", error);
+      if (isLatest()) {
+        setSlotsError(error.message || "Unable to load available times");
+      }
+      return null;
+    } finally {
+      if (isLatest()) {
+        setSlotsLoading(false);
+      }
+    }
+  }, [serviceType, selectedDate, location, minLeadHours]);
 
-  // Generate time slots from 8 AM to 8 PM
+  // Refresh slots on change, periodically and when the tab regains focus
   useEffect(() => {
-    const times = [];
-    for (let hour = 8; hour <= 20; hour++) {
-      const hourString = hour > 12 ? `${hour - 12}:00 PM` : `${hour}:00 AM`;
-      const timeValue = hour < 10 ? `0${hour}:00` : `${hour}:00`;
-      times.push({ label: hourString, value: timeValue });
+    if (!isOpen) return;
+
+    const debounce = setTimeout(loadSlots, 400);
+    const interval = setInterval(loadSlots, SLOT_REFRESH_INTERVAL);
+    const handleFocus = () => loadSlots();
+    window.addEventListener("focus", handleFocus);
+
+    return () => {
+      clearTimeout(debounce);
+      clearInterval(interval);
+      window.removeEventListener("focus", handleFocus);
+    };
+  }, [isOpen, loadSlots]);
+
+  // Drop the chosen time if someone else books it while we wait
+  useEffect(() => {
+    if (!selectedTime || availableTimes.length === 0) return;
+
+    const slot = availableTimes.find((time) => time.value === selectedTime);
+    if (!slot || !slot.available) {
+      setSelectedTime(null);
+      setSlotNotice(
+        "The time you picked is no longer available. Please choose another."
+      );
     }
-    setAvailableTimes(times);
-  }, []);
+  }, [availableTimes, selectedTime]);
 
   // Handle outside click to close modal
   useEffect(() => {
@@ -69,10 +187,17 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
       // Check if date is in the past
       const isPast = date < new Date(today.setHours(0, 0, 0, 0));
 
+      // Blackout dates and days that end inside the lead time are blocked
+      const endOfDay = new Date(year, month, day, 23, 59);
+      const isBlocked =
+        blackoutDates.includes(toDateKey(date)) ||
+        endOfDay.getTime() < Date.now() + minLeadHours * 60 * 60 * 1000;
+
       days.push({
         day,
         date,
-        isPast,
+        isPast: isPast || isBlocked,
+        isBlackout: !isPast && blackoutDates.includes(toDateKey(date)),
         isToday:
           date.getDate() === today.getDate() &&
           date.getMonth() === today.getMonth() &&
@@ -98,41 +223,59 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
   const selectDate = (date) => {
     if (date && !date.isPast) {
       setSelectedDate(date.date);
+      setSelectedTime(null);
+      setSlotNotice(null);
     }
   };
 
-  const handleSubmit = () => {
+  const selectTime = (time) => {
+    if (time.available) {
+      setSelectedTime(time.value);
+      setSlotNotice(null);
+    }
+  };
+
+  const handleSubmit = async () => {
     if (!selectedDate || !selectedTime || !location) {
       return; // Validate required fields
     }
 
-    setIsLoading(true);
+    // The route is protected, but the session can end while the selector is
+    // open, e.g. signing out in another tab
+    if (!userId) {
+      router.push(buildSignInUrl(getCurrentPath()));
+      return;
+    }
 
-    // Format the selected areas from the items object
-    const selectedAreas = [];
-    if (selectedItems) {
-      Object.keys(selectedItems).forEach((item) => {
-        for (let i = 0; i < selectedItems[item]; i++) {
-          selectedAreas.push(item);
-        }
-      });
+    // The page must have started a draft for the service being scheduled
+    const draft = BookingDraftStore.load();
+    if (!draft || draft.serviceType !== serviceType) {
+      setSubmitError(
+        "We couldn't find your booking details. Please go back and try again."
+      );
+      return;
     }
 
-    // Create booking payload
-    const bookingData = {
-      // id would normally come from the authenticated user
-      id: "65e6023ac52ae468ab6aaa3b", // Replace with actual user ID
-      serviceName: "Cleaning",
-      serviceCategory: "Standard Home Cleaning",
-      areas: selectedAreas,
-      bookingDate: selectedDate.toISOString(),
-      bookingTime: selectedTime,
-      location: location,
-      paymentStatus: "pending",
-    };
+    setSubmitError(null);
+    setIsLoading(true);
 
-    // Save booking data to localStorage for use on the summary page
-    localStorage.setItem("bookingData", JSON.stringify(bookingData));
+    // Re-check the slot right before continuing
+    const latestTimes = await loadSlots();
+    const slot = latestTimes?.find((time) => time.value === selectedTime);
+    if (!slot || !slot.available) {
+      setIsLoading(false);
+      return;
+    }
+
+    // Add the schedule to the booking draft started by the service page
+    BookingDraftStore.update({
+      customerId: userId,
+      schedule: {
+        bookingDate: selectedDate.toISOString(),
+        bookingTime: selectedTime,
+        location: location,
+      },
+    });
 
     // Navigate to the booking summary page
     setTimeout(() => {
@@ -166,7 +309,7 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
         <div className="p-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-bold text-gray-900">
-              Schedule Cleaning
+              Schedule {SERVICE_NAMES[serviceType] || "Service"}
             </h2>
             <button
               onClick={onClose}
@@ -278,6 +421,7 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
                     }
                   `}
                   onClick={() => selectDate(day)}
+                  title={day.isBlackout ? "Unavailable" : undefined}
                 >
                   {day.day}
                 </div>
@@ -285,31 +429,6 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
             </div>
           </div>
 
-          {/* Time selection */}
-          <div className="mb-6">
-            <h3 className="text-base font-medium text-gray-900 mb-3">
-              Select Time
-            </h3>
-            <div className="grid grid-cols-3 gap-2">
-              {availableTimes.map((time, index) => (
-                <button
-                  key={index}
-                  className={`
-                    py-2 px-3 rounded-lg text-sm border
-                    ${
-                      selectedTime === time.value
-                        ? "bg-purple-600 text-white border-purple-600"
-                        : "border-gray-200 text-gray-700 hover:border-purple-400"
-                    }
-                  `}
-                  onClick={() => setSelectedTime(time.value)}
-                >
-                  {time.label}
-                </button>
-              ))}
-            </div>
-          </div>
-
           {/* Location input */}
           <div className="mb-6">
             <label
@@ -328,14 +447,85 @@ export default function DateTimeSelector({ isOpen, onClose, selectedItems }) {
             />
           </div>
 
+          {/* Time selection */}
+          <div className="mb-6">
+            <h3 className="text-base font-medium text-gray-900 mb-3">
+              Select Time
+            </h3>
+            {slotNotice && (
+              <p className="text-sm text-orange-600 mb-3">{slotNotice}</p>
+            )}
+            {!selectedDate || !location.trim() ? (
+              <p className="text-sm text-gray-500">
+                Pick a date and enter your address to see available times.
+              </p>
+            ) : slotsError ? (
+              <div className="text-sm text-red-600">
+                {slotsError}{" "}
+                <button onClick={loadSlots} className="underline font-medium">
+                  Try again
+                </button>
+              </div>
+            ) : slotsLoading && availableTimes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Loading available times...
+              </p>
+            ) : availableTimes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No times available on this date. Please pick another day.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {availableTimes.map((time, index) => (
+                  <button
+                    key={index}
+                    disabled={!time.available}
+                    className={`
+                      py-2 px-3 rounded-lg text-sm border
+                      ${
+                        !time.available
+                          ? "border-gray-100 bg-gray-50 text-gray-300 cursor-not-allowed"
+                          : selectedTime === time.value
+                          ? "bg-purple-600 text-white border-purple-600"
+                          : "border-gray-200 text-gray-700 hover:border-purple-400"
+                      }
+                    `}
+                    onClick={() => selectTime(time)}
+                  >
+                    {time.label}
+                    {time.reason && (
+                      <span className="block text-xs">
+                        {time.reason === "full" ? "Full" : "Too soon"}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {submitError && (
+            <p className="text-sm text-red-600 mb-3">{submitError}</p>
+          )}
+
           {/* Submit button */}
           <button
             onClick={handleSubmit}
-            disabled={!selectedDate || !selectedTime || !location || isLoading}
+            disabled={
+              !selectedDate ||
+              !selectedTime ||
+              !location ||
+              isLoading ||
+              authLoading
+            }
             className={`
               w-full py-4 rounded-xl text-white font-medium text-lg
               ${
-                !selectedDate || !selectedTime || !location || isLoading
+                !selectedDate ||
+                !selectedTime ||
+                !location ||
+                isLoading ||
+                authLoading
                   ? "bg-gray-300 cursor-not-allowed"
                   : "bg-purple-600 hover:bg-purple-700 shadow-lg"
               }
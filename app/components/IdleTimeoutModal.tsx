@@ -0,0 +1,118 @@
+// components/IdleTimeoutModal.tsx
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useAuth } from "../../context/AuthContext";
+import { BookingDraftStore } from "../../utils/bookingDraft";
+import {
+  ACTIVITY_EVENTS,
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+  getIdleTime,
+  recordActivity,
+} from "../../utils/idleTimeout";
+
+const formatCountdown = (seconds) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0
+    ? `${minutes}:${String(rest).padStart(2, "0")}`
+    : `${rest} second${rest === 1 ? "" : "s"}`;
+};
+
+// Warns a signed-in user who has gone quiet, then signs them out
+export default function IdleTimeoutModal() {
+  const { user, logout } = useAuth();
+  const [secondsLeft, setSecondsLeft] = useState(null);
+  const warningRef = useRef(false);
+  const signingOutRef = useRef(false);
+
+  const signOut = useCallback(async () => {
+    if (signingOutRef.current) return;
+    signingOutRef.current = true;
+
+    // Don't leave the customer's address or phone for the next person
+    BookingDraftStore.clearContactDetails();
+    await logout();
+  }, [logout]);
+
+  const staySignedIn = () => {
+    recordActivity(true);
+    warningRef.current = false;
+    setSecondsLeft(null);
+  };
+
+  useEffect(() => {
+    if (!user) {
+      warningRef.current = false;
+      signingOutRef.current = false;
+      setSecondsLeft(null);
+      return;
+    }
+
+    // Once the warning is up, only the button counts as being back
+    const handleActivity = () => {
+      if (!warningRef.current) {
+        recordActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    const interval = setInterval(() => {
+      const remaining = IDLE_TIMEOUT_MS - getIdleTime();
+
+      if (remaining <= 0) {
+        signOut();
+      } else if (remaining <= IDLE_WARNING_MS) {
+        warningRef.current = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (warningRef.current) {
+        // Another tab chose to stay signed in
+        warningRef.current = false;
+        setSecondsLeft(null);
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      clearInterval(interval);
+    };
+  }, [user, signOut]);
+
+  if (!user || secondsLeft === null) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg max-w-sm w-full text-center">
+        <h2 className="text-xl font-bold text-[#1E1E1E]">
+          Are you still there?
+        </h2>
+        <p className="text-[#373737B2] mt-2">
+          For your security, you&apos;ll be signed out in{" "}
+          <strong>{formatCountdown(secondsLeft)}</strong>.
+        </p>
+        <div className="mt-6 flex flex-col gap-3">
+          <button
+            onClick={staySignedIn}
+            className="px-4 py-2 bg-[#3310C2] text-white rounded-lg hover:bg-[#3310C2]/90 transition"
+          >
+            Stay Signed In
+          </button>
+          <button
+            onClick={signOut}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+// components/PasswordStrengthMeter.tsx
+"use client";
+
+import { getPasswordStrength } from "../../utils/passwordStrength";
+
+const BAR_COLORS = [
+  "bg-red-500",
+  "bg-orange-500",
+  "bg-yellow-500",
+  "bg-lime-500",
+  "bg-green-600",
+];
+
+// Four-segment bar with a label, plus the reason a password is rejected
+export default function PasswordStrengthMeter({ password, user = null }) {
+  if (!password) {
+    return null;
+  }
+
+  const { score, label, problem } = getPasswordStrength(password, user);
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${
+              score >= segment ? BAR_COLORS[score] : "bg-gray-200"
+            }`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        Strength: <span className="font-medium">{label}</span>
+      </p>
+      {problem && <p className="text-xs text-red-600">{problem}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+// components/PhoneVerification.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import {
+  PHONE_CODE_LENGTH,
+  isSamePhone,
+  normalizePhone,
+} from "../../utils/phone";
+import {
+  VerificationCodeStore,
+  formatCountdown,
+  getCodeStatus,
+} from "../../utils/verificationCode";
+
+// Confirms a phone number with an SMS code. Verifying also saves the number
+// to the profile.
+export default function PhoneVerification({ phone, onVerified = null }) {
+  const { user, updateUser } = useAuth();
+  const [codeState, setCodeState] = useState(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const normalizedPhone = normalizePhone(phone);
+  const isVerified = !!user?.mobileVerified && isSamePhone(phone, user?.mobile);
+
+  // A different number needs its own code
+  useEffect(() => {
+    setCode("");
+    setError("");
+    setCodeState(
+      normalizedPhone
+        ? VerificationCodeStore.get("verify-phone", normalizedPhone)
+        : null
+    );
+  }, [normalizedPhone]);
+
+  useEffect(() => {
+    if (!codeState) return;
+    const timerInterval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timerInterval);
+  }, [codeState]);
+
+  if (isVerified) {
+    return (
+      <p className="mt-2 text-sm font-medium text-green-600">
+        ✓ Phone number verified
+      </p>
+    );
+  }
+
+  const codeStatus = getCodeStatus(codeState, now);
+  const codeSent = !!codeState && !codeStatus.isExpired;
+
+  const sendCode = async () => {
+    if (!normalizedPhone || codeStatus.secondsToResend > 0) return;
+
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await AuthService.sendPhoneCode(normalizedPhone);
+      setCodeState(
+        VerificationCodeStore.recordSent(
+          "verify-phone",
+          normalizedPhone,
+          response.data
+        )
+      );
+      setCode("");
+    } catch (error) {
+      console.error("Error sending phone code:", error);
+      if (error.status === 429) {
+        setCodeState(
+          VerificationCodeStore.recordRateLimited(
+            "verify-phone",
+            normalizedPhone,
+            error.data?.retryAfterSeconds
+          )
+        );
+      }
+      setError(error.message || "We couldn't send a code. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    if (code.length !== PHONE_CODE_LENGTH) {
+      setError(`Enter the ${PHONE_CODE_LENGTH}-digit code we texted you.`);
+      return;
+    }
+
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await AuthService.verifyPhone(code, true);
+      VerificationCodeStore.clear("verify-phone", normalizedPhone);
+      updateUser(response.data);
+      onVerified?.(response.data.mobile);
+    } catch (error) {
+      console.error("Error verifying phone:", error);
+      const { attemptsLeft } = error.data || {};
+      setError(
+        attemptsLeft
+          ? `${error.message}. ${attemptsLeft} attempt${
+              attemptsLeft === 1 ? "" : "s"
+            } left.`
+          : error.message || "We couldn't verify that code."
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      {codeSent ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={PHONE_CODE_LENGTH}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            disabled={isBusy}
+            placeholder="SMS code"
+            className="w-32 border border-gray-300 rounded-md p-2 text-gray-800 tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="button"
+            onClick={verifyCode}
+            disabled={isBusy}
+            className="px-4 py-2 bg-[#3310C2] text-white rounded-md hover:bg-[#3310C2]/90 disabled:opacity-50"
+          >
+            Verify
+          </button>
+          <button
+            type="button"
+            onClick={sendCode}
+            disabled={isBusy || codeStatus.secondsToResend > 0}
+            className="text-sm text-[#3310C2] disabled:text-gray-400"
+          >
+            {codeStatus.secondsToResend > 0
+              ? `Resend in ${formatCountdown(codeStatus.secondsToResend)}`
+              : "Resend code"}
+          </button>
+          <p className="w-full text-xs text-gray-500">
+            Code expires in {formatCountdown(codeStatus.secondsToExpiry)}
+          </p>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={sendCode}
+          disabled={
+            !normalizedPhone || isBusy || codeStatus.secondsToResend > 0
+          }
+          className="text-sm font-medium text-[#3310C2] disabled:text-gray-400"
+        >
+          {codeStatus.secondsToResend > 0
+            ? `Verify by SMS in ${formatCountdown(codeStatus.secondsToResend)}`
+            : "Verify this number by SMS"}
+        </button>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// components/PinField.tsx
+"use client";
+
+import { PIN_LENGTH, sanitizePinInput } from "../../utils/transactionPin";
+
+// Masked numeric input for a transaction PIN
+export default function PinField({
+  label,
+  value,
+  onChange,
+  disabled = false,
+  autoFocus = false,
+}) {
+  return (
+    <label className="block mb-4">
+      <span className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </span>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={PIN_LENGTH}
+        value={value}
+        onChange={(e) => onChange(sanitizePinInput(e.target.value))}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        className="w-full border border-gray-300 rounded-md p-2 text-center text-2xl tracking-[0.75em] text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,198 @@
+// components/RecurringBookingActions.tsx
+"use client";
+
+import { useState } from "react";
+import BookingService from "../../services/bookingService";
+import { RECURRENCE_LABELS, toDateKey } from "../../utils/bookingSeries";
+
+// Visits in these states can no longer be changed
+const CLOSED_STATUSES = ["completed", "cancelled", "skipped"];
+
+export default function RecurringBookingActions({ booking, onChange }) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [scope, setScope] = useState("occurrence");
+  const [bookingDate, setBookingDate] = useState("");
+  const [bookingTime, setBookingTime] = useState(booking.booking_time || "");
+
+  const seriesId = booking.series_id;
+  const occurrenceId = booking.occurrence_id || booking.id;
+  const isPaused = booking.series_status === "paused";
+  const isClosed = CLOSED_STATUSES.includes(booking.status);
+
+  // Run a series action, then let the list reload the updated visits
+  const runAction = async (action, confirmMessage = null) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await action();
+      setIsRescheduling(false);
+      onChange();
+    } catch (error) {
+      console.error("Error updating booking series:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReschedule = (e) => {
+    e.preventDefault();
+    if (!bookingDate || !bookingTime) return;
+
+    runAction(() =>
+      scope === "series"
+        ? BookingService.rescheduleSeries(
+            seriesId,
+            { bookingDate, bookingTime, fromOccurrence: occurrenceId },
+            true
+          )
+        : BookingService.rescheduleOccurrence(
+            seriesId,
+            occurrenceId,
+            { bookingDate, bookingTime },
+            true
+          )
+    );
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <span className="text-sm text-gray-600">
+          {RECURRENCE_LABELS[booking.frequency] || "Recurring"}
+          {booking.occurrence_number && booking.occurrence_count
+            ? ` · Visit ${booking.occurrence_number} of ${booking.occurrence_count}`
+            : ""}
+        </span>
+        {isPaused && (
+          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+            Series paused
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {!isClosed && !isPaused && (
+          <>
+            <button
+              onClick={() =>
+                runAction(() =>
+                  BookingService.skipOccurrence(seriesId, occurrenceId, true)
+                )
+              }
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 text-gray-700 hover:border-purple-400 disabled:opacity-50"
+            >
+              Skip visit
+            </button>
+            <button
+              onClick={() => setIsRescheduling(!isRescheduling)}
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 text-gray-700 hover:border-purple-400 disabled:opacity-50"
+            >
+              Reschedule
+            </button>
+            <button
+              onClick={() =>
+                runAction(
+                  () =>
+                    BookingService.cancelOccurrence(
+                      seriesId,
+                      occurrenceId,
+                      true
+                    ),
+                  "Cancel this visit? The rest of the series stays booked."
+                )
+              }
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 text-red-600 hover:border-red-400 disabled:opacity-50"
+            >
+              Cancel visit
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={() =>
+            runAction(() =>
+              isPaused
+                ? BookingService.resumeSeries(seriesId, true)
+                : BookingService.pauseSeries(seriesId, true)
+            )
+          }
+          disabled={isBusy}
+          className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 text-gray-700 hover:border-purple-400 disabled:opacity-50"
+        >
+          {isPaused ? "Resume series" : "Pause series"}
+        </button>
+        <button
+          onClick={() =>
+            runAction(
+              () => BookingService.cancelSeries(seriesId, true),
+              "Cancel every upcoming visit in this series?"
+            )
+          }
+          disabled={isBusy}
+          className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 text-red-600 hover:border-red-400 disabled:opacity-50"
+        >
+          Cancel series
+        </button>
+      </div>
+
+      {isRescheduling && (
+        <form
+          onSubmit={handleReschedule}
+          className="mt-4 bg-gray-50 rounded-lg p-4 space-y-3"
+        >
+          <div className="flex gap-4 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name={`scope-${occurrenceId}`}
+                checked={scope === "occurrence"}
+                onChange={() => setScope("occurrence")}
+                className="mr-2"
+              />
+              This visit only
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name={`scope-${occurrenceId}`}
+                checked={scope === "series"}
+                onChange={() => setScope("series")}
+                className="mr-2"
+              />
+              This and later visits
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="date"
+              value={bookingDate}
+              min={toDateKey(new Date())}
+              onChange={(e) => setBookingDate(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="time"
+              value={bookingTime}
+              onChange={(e) => setBookingTime(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isBusy || !bookingDate || !bookingTime}
+            className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:bg-gray-300"
+          >
+            Save new time
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
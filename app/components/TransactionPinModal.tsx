@@ -0,0 +1,220 @@
+// components/TransactionPinModal.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import PinField from "./PinField";
+import {
+  PIN_LENGTH,
+  PinAttemptStore,
+  getPinProblem,
+} from "../../utils/transactionPin";
+
+// Statuses the API uses for a wrong or locked PIN; anything else (a network
+// error, say) doesn't count as an attempt
+const PIN_REJECTED_STATUSES = [400, 403, 423];
+
+const formatLockout = (lockedUntil) =>
+  new Date(lockedUntil).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Asks for the transaction PIN before a payment goes ahead, and passes the
+// API's pinToken to onVerified. Users without a PIN set one up here first.
+export default function TransactionPinModal({ isOpen, onClose, onVerified }) {
+  const { userId, updateUser } = useAuth();
+  // From the profile fetched on opening; null until it arrives
+  const [hasPin, setHasPin] = useState(null);
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(null);
+
+  const isCreating = hasPin === false;
+
+  useEffect(() => {
+    if (!isOpen || !userId) return;
+
+    setPin("");
+    setConfirmPin("");
+    setError("");
+    setLockedUntil(PinAttemptStore.getLockedUntil(userId));
+
+    // The cached profile may predate the PIN, or not mention it at all. Only
+    // this dialog needs the answer, so the shared user is left alone.
+    let cancelled = false;
+    setHasPin(null);
+    AuthService.getUserInfo()
+      .then((response) => {
+        if (!response.success) throw new Error(response.message);
+        if (!cancelled) setHasPin(!!response.data.hasPin);
+      })
+      .catch((error) => {
+        console.error("Error loading PIN status:", error);
+        if (!cancelled) {
+          setError("We couldn't load your account. Please try again.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, userId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const createPin = async () => {
+    const problem = getPinProblem(pin);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError("The PINs don't match.");
+      return;
+    }
+
+    const response = await AuthService.createPin(userId, pin);
+    if (!response.success) {
+      setError(response.message || "We couldn't save your PIN.");
+      return;
+    }
+    setHasPin(true);
+    updateUser({ hasPin: true });
+    // The new PIN is verified like any other to get a pinToken
+    await verifyPin();
+  };
+
+  const verifyPin = async () => {
+    try {
+      const response = await AuthService.verifyPin(userId, pin);
+      PinAttemptStore.reset(userId);
+      onVerified(response.data.pinToken);
+    } catch (error) {
+      if (!PIN_REJECTED_STATUSES.includes(error.status)) {
+        throw error;
+      }
+
+      setPin("");
+      const locked = PinAttemptStore.recordRejection(userId, error.data);
+      if (locked) {
+        setLockedUntil(locked);
+        return;
+      }
+
+      const remaining = error.data?.attemptsRemaining;
+      setError(
+        remaining === undefined
+          ? error.message || "Incorrect PIN."
+          : `Incorrect PIN. ${remaining} attempt${
+              remaining === 1 ? "" : "s"
+            } left.`
+      );
+    }
+  };
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+    if (isBusy || lockedUntil || hasPin === null) return;
+    if (!isCreating && pin.length !== PIN_LENGTH) {
+      setError(`Enter your ${PIN_LENGTH}-digit PIN.`);
+      return;
+    }
+
+    setIsBusy(true);
+    setError("");
+    try {
+      await (isCreating ? createPin() : verifyPin());
+    } catch (error) {
+      console.error("Error checking transaction PIN:", error);
+      setError(error.message || "Something went wrong. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-6 rounded-lg shadow-lg max-w-sm w-full"
+      >
+        <h2 className="text-xl font-bold text-[#1E1E1E] text-center">
+          {isCreating ? "Set a transaction PIN" : "Enter your PIN"}
+        </h2>
+        <p className="text-[#373737B2] mt-2 mb-4 text-center">
+          {isCreating
+            ? `Choose a ${PIN_LENGTH}-digit PIN. You'll use it to confirm payments.`
+            : "Confirm this payment with your transaction PIN."}
+        </p>
+
+        {lockedUntil ? (
+          <p className="text-sm text-red-600 mb-4 text-center">
+            Too many incorrect attempts. Try again after{" "}
+            {formatLockout(lockedUntil)}, or reset your PIN.
+          </p>
+        ) : (
+          <>
+            <PinField
+              label={isCreating ? "New PIN" : "PIN"}
+              value={pin}
+              onChange={setPin}
+              disabled={isBusy}
+              autoFocus
+            />
+            {isCreating && (
+              <PinField
+                label="Confirm PIN"
+                value={confirmPin}
+                onChange={setConfirmPin}
+                disabled={isBusy}
+              />
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <div className="flex flex-col gap-3">
+          {!lockedUntil && (
+            <button
+              type="submit"
+              disabled={isBusy || hasPin === null}
+              className="px-4 py-2 bg-[#3310C2] text-white rounded-lg hover:bg-[#3310C2]/90 transition disabled:opacity-50"
+            >
+              {hasPin === null
+                ? "Loading..."
+                : isBusy
+                ? "Checking..."
+                : isCreating
+                ? "Save PIN & Pay"
+                : "Pay"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+          >
+            Cancel
+          </button>
+          {!isCreating && (
+            <Link
+              href="/profile#transaction-pin"
+              className="text-sm text-[#00438F] text-center"
+            >
+              Forgot your PIN?
+            </Link>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
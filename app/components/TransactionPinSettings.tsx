@@ -0,0 +1,221 @@
+// components/TransactionPinSettings.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import AuthService from "../../services/authService";
+import { useAuth } from "../../context/AuthContext";
+import PinField from "./PinField";
+import { PinAttemptStore, getPinProblem } from "../../utils/transactionPin";
+
+const EMPTY_FORM = { currentPin: "", otp: "", newPin: "", confirmPin: "" };
+
+// Create, change or reset the transaction PIN that confirms payments
+export default function TransactionPinSettings() {
+  const { user, userId, updateUser, refreshUserData } = useAuth();
+  // null, "create", "change" or "reset"
+  const [mode, setMode] = useState(null);
+  const [resetCodeSent, setResetCodeSent] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  // The cached profile may predate the PIN, so read it fresh
+  useEffect(() => {
+    refreshUserData().catch((error) =>
+      console.error("Error loading PIN status:", error)
+    );
+  }, []);
+
+  const hasPin = !!user?.hasPin;
+
+  const setField = (name) => (value) => setForm({ ...form, [name]: value });
+
+  const open = (nextMode) => {
+    setMode(nextMode);
+    setResetCodeSent(false);
+    setForm(EMPTY_FORM);
+    setError("");
+  };
+
+  const run = async (action) => {
+    setIsBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error updating transaction PIN:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sendResetCode = () =>
+    run(async () => {
+      await AuthService.requestPinReset(true);
+      setResetCodeSent(true);
+    });
+
+  const handleSubmit = (e) => {
+    e.preventDefault();
+
+    const problem = getPinProblem(form.newPin);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (form.newPin !== form.confirmPin) {
+      setError("The new PINs don't match.");
+      return;
+    }
+    if (mode === "change" && form.currentPin === form.newPin) {
+      setError("Your new PIN must be different from the current one.");
+      return;
+    }
+
+    run(async () => {
+      if (mode === "create") {
+        await AuthService.createPin(userId, form.newPin, true);
+        updateUser({ hasPin: true });
+      } else if (mode === "change") {
+        await AuthService.changePin(form.currentPin, form.newPin, true);
+      } else {
+        await AuthService.resetPin(form.otp, form.newPin, true);
+        // A reset PIN starts with a clean slate
+        PinAttemptStore.reset(userId);
+      }
+      open(null);
+    });
+  };
+
+  return (
+    <div id="transaction-pin" className="border-b pb-4">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <div>
+          <h4 className="font-semibold text-gray-800">Transaction PIN</h4>
+          <p className="text-sm text-gray-500">
+            {hasPin
+              ? "Your PIN confirms every payment"
+              : "Set a PIN to confirm payments"}
+          </p>
+        </div>
+        {!mode && (
+          <div className="flex gap-3 text-sm">
+            {hasPin ? (
+              <>
+                <button
+                  onClick={() => open("change")}
+                  className="text-indigo-600 hover:text-indigo-700"
+                >
+                  Change PIN
+                </button>
+                <button
+                  onClick={() => open("reset")}
+                  className="text-indigo-600 hover:text-indigo-700"
+                >
+                  Forgot PIN?
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => open("create")}
+                className="text-indigo-600 hover:text-indigo-700"
+              >
+                Create PIN
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode && (
+        <div className="bg-gray-50 p-4 rounded-md">
+          {mode === "reset" && !resetCodeSent ? (
+            <>
+              <p className="text-sm text-gray-700 mb-4">
+                We&apos;ll email a code to {user?.email} so you can choose a new
+                PIN.
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={sendResetCode}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Send Code
+                </button>
+                <button
+                  onClick={() => open(null)}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="max-w-xs">
+              {mode === "change" && (
+                <PinField
+                  label="Current PIN"
+                  value={form.currentPin}
+                  onChange={setField("currentPin")}
+                  disabled={isBusy}
+                  autoFocus
+                />
+              )}
+              {mode === "reset" && (
+                <label className="block mb-4">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">
+                    Code from your email
+                  </span>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={form.otp}
+                    onChange={(e) => setField("otp")(e.target.value.trim())}
+                    disabled={isBusy}
+                    className="w-full border border-gray-300 rounded-md p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </label>
+              )}
+              <PinField
+                label="New PIN"
+                value={form.newPin}
+                onChange={setField("newPin")}
+                disabled={isBusy}
+                autoFocus={mode === "create"}
+              />
+              <PinField
+                label="Confirm new PIN"
+                value={form.confirmPin}
+                onChange={setField("confirmPin")}
+                disabled={isBusy}
+              />
+
+              {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Save PIN
+                </button>
+                <button
+                  type="button"
+                  onClick={() => open(null)}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
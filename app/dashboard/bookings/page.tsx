@@ -4,51 +4,27 @@
 import { useState, useEffect } from "react";
 import Head from "next/head";
 import { useRouter } from "next/navigation";
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002";
-
-const getAuthToken = () => {
-  if (typeof document !== "undefined") {
-    const cookies = document.cookie.split(";");
-    const authCookie = cookies.find((cookie) =>
-      cookie.trim().startsWith("auth_token=")
-    );
-    if (authCookie) {
-      return authCookie.split("=")[1];
-    }
-  }
-
-  if (typeof window !== "undefined" && window.localStorage) {
-    return localStorage.getItem("auth_token") || localStorage.getItem("token");
-  }
-  return null;
-};
+import { useAuth } from "../../../context/AuthContext";
+import BookingService from "../../../services/bookingService";
+import { buildSignInUrl, getCurrentPath } from "../../../utils/authRedirect";
+import AwaitingPaymentBookings from "../../components/AwaitingPaymentBookings";
+import RecurringBookingActions from "../../components/RecurringBookingActions";
 
 export default function BookingsDashboard() {
   const router = useRouter();
+  const { isAuthenticated } = useAuth();
   const [bookings, setBookings] = useState([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
 
   const fetchBookings = async () => {
     try {
-      const authToken = getAuthToken();
-      if (!authToken) {
-        router.push("/login");
+      if (!isAuthenticated()) {
+        router.push(buildSignInUrl(getCurrentPath()));
         return;
       }
 
-      const response = await fetch(`${API_BASE_URL}/api/v1/bookings`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch bookings");
-      }
-
-      const result = await response.json();
+      const result = await BookingService.getBookings();
       setBookings(result.data || []);
     } catch (error) {
       console.error("Error fetching bookings:", error);
@@ -68,6 +44,7 @@ export default function BookingsDashboard() {
       confirmed: "bg-blue-100 text-blue-800",
       completed: "bg-green-100 text-green-800",
       cancelled: "bg-red-100 text-red-800",
+      skipped: "bg-gray-100 text-gray-700",
     };
 
     return (
@@ -132,6 +109,11 @@ export default function BookingsDashboard() {
             </div>
           )}
 
+          <AwaitingPaymentBookings
+            bookings={bookings}
+            returnPath="/dashboard/bookings"
+          />
+
           {bookings.length === 0 ? (
             <div className="bg-white rounded-xl shadow-sm p-12 text-center">
               <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -234,6 +216,13 @@ export default function BookingsDashboard() {
                       </div>
                     </div>
                   )}
+
+                  {booking.series_id && (
+                    <RecurringBookingActions
+                      booking={booking}
+                      onChange={fetchBookings}
+                    />
+                  )}
                 </div>
               ))}
             </div>
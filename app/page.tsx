@@ -7,42 +7,13 @@ import ServiceItem from "./components/ServiceItem";
 import BottomNavigation from "./components/BottomNavigation";
 import DesktopSidebar from "./components/DesktopSidebar";
 import ProgressBar from "./components/ProgressBar";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useAuth } from "../context/AuthContext";
-import { useRouter } from "next/navigation"; // Import router
 
 export default function Home() {
-  const { user, loading, isAuthenticated } = useAuth();
-  const router = useRouter(); // Initialize router
+  // middleware.ts only lets signed-in users reach this page
+  const { user } = useAuth();
 
-  useEffect(() => {
-    // If authentication check completed and user is not authenticated
-    if (!loading && !isAuthenticated()) {
-      // Redirect to login page
-      router.push("/auth/signin");
-    }
-  }, [loading, isAuthenticated, router]);
-
-  // Show loading state while authentication is being checked
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        Loading...
-      </div>
-    );
-  }
-
-  // If not authenticated, don't render the page content
-  // This prevents flash of content before redirect happens
-  if (!isAuthenticated()) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        Redirecting to login...
-      </div>
-    );
-  }
-
-  // Only render the page content if authenticated
   return (
     <div className="bg-gray-50 min-h-screen relative">
       <main className="mx-auto bg-white min-h-screen shadow-lg pb-16 lg:pl-56">
@@ -6,9 +6,22 @@ import AuthService from "./../services/authService";
 import {
   isAuthenticated,
   getCurrentUser,
+  normalizeUser,
   TokenService,
   fetchUserData,
+  endSession,
 } from "../utils/tokenService";
+import {
+  AUTH_EVENTS,
+  broadcastAuthEvent,
+  subscribeToAuthEvents,
+} from "../utils/authSync";
+import {
+  buildSignInUrl,
+  getCurrentPath,
+  getReturnTo,
+} from "../utils/authRedirect";
+import { getRouteRule } from "../utils/routeAccess";
 
 const AuthContext = createContext();
 
@@ -23,17 +36,13 @@ export function AuthProvider({ children }) {
       setLoading(true);
 
       if (typeof window !== "undefined") {
+        // Older builds kept the user in localStorage; only memory is used now
+        TokenService.removeUserData();
+
         if (isAuthenticated()) {
-          // Fetch fresh user data from server using token
+          // Fetch fresh user data through the session cookie
           const userData = await fetchUserData();
-
-          if (userData && userData.success) {
-            setUser(userData.data);
-          } else {
-            // If fetch fails, clear invalid token and logout
-            TokenService.clearAll();
-            setUser(null);
-          }
+          setUser(userData && userData.success ? userData.data : null);
         }
         setLoading(false);
       }
@@ -42,19 +51,55 @@ export function AuthProvider({ children }) {
     initAuth();
   }, []);
 
+  // Follow logins, logouts and profile changes made in other tabs
+  useEffect(() => {
+    return subscribeToAuthEvents(({ type, user: sharedUser }) => {
+      const access = getRouteRule(window.location.pathname).access;
+
+      switch (type) {
+        case AUTH_EVENTS.LOGIN:
+          TokenService.saveUserData(sharedUser);
+          setUser(getCurrentUser());
+          // A sign-in page left open elsewhere has nothing left to do
+          if (access === "guest") {
+            router.replace(getReturnTo("/"));
+          }
+          break;
+        case AUTH_EVENTS.USER_UPDATED:
+          TokenService.saveUserData(sharedUser);
+          setUser(getCurrentUser());
+          break;
+        case AUTH_EVENTS.LOGOUT:
+          TokenService.clearAll();
+          setUser(null);
+          // Leave pages that need a session, as middleware would on reload
+          if (access === "protected") {
+            router.replace(buildSignInUrl(getCurrentPath()));
+          }
+          break;
+      }
+    });
+  }, [router]);
+
   // Define the login function
-  const loginUser = async (email, password) => {
+  const loginUser = async (email, password, rememberMe = false) => {
     try {
-      const response = await AuthService.login(email, password);
+      const response = await AuthService.login(
+        email,
+        password,
+        false,
+        rememberMe
+      );
 
       if (response.success) {
         // Fetch complete user data after login using the new endpoint
         const userData = await fetchUserData();
-        if (userData && userData.success) {
-          setUser(userData.data);
-        }
+        const sessionUser =
+          userData && userData.success ? userData.data : getCurrentUser();
+        setUser(sessionUser);
+        broadcastAuthEvent(AUTH_EVENTS.LOGIN, sessionUser);
 
-        return { success: true };
+        return { success: true, user: sessionUser };
       } else {
         return { success: false, message: response.error || "Login failed" };
       }
@@ -80,32 +125,62 @@ export function AuthProvider({ children }) {
   };
 
   // Logout function
-  const logoutUser = () => {
-    AuthService.logout();
+  const logoutUser = async () => {
+    await AuthService.logout();
     setUser(null);
     router.push("/auth/signin"); // Fixed typo: sigin -> signin
   };
 
+  // Revoke every session on the server, this one included
+  const logoutEverywhere = async () => {
+    await AuthService.logoutEverywhere(true);
+    setUser(null);
+    router.push("/auth/signin");
+  };
+
+  // Merge updated profile fields into the signed-in user
+  const updateUser = (updates) => {
+    const updatedUser = normalizeUser({
+      ...(getCurrentUser() || user || {}),
+      ...updates,
+    });
+    TokenService.saveUserData(updatedUser);
+    setUser(updatedUser);
+    broadcastAuthEvent(AUTH_EVENTS.USER_UPDATED, updatedUser);
+    return updatedUser;
+  };
+
+  // End the session without leaving the page (e.g. a rejected token)
+  const clearSession = async () => {
+    await endSession();
+    setUser(null);
+  };
+
   // Refresh user data function
   const refreshUserData = async () => {
     if (isAuthenticated()) {
       const userData = await fetchUserData();
       if (userData && userData.success) {
         setUser(userData.data);
+        broadcastAuthEvent(AUTH_EVENTS.USER_UPDATED, userData.data);
         return userData.data;
       }
     }
     return null;
   };
 
-  // Context values
+  // Context values; pages read the session only through these
   const values = {
     user,
+    userId: user?.user_id || null,
     loading,
     login: loginUser,
     register: registerUser,
     logout: logoutUser,
+    logoutEverywhere,
     refreshUserData, // Updated function name
+    updateUser,
+    clearSession,
     isAuthenticated: () => isAuthenticated(),
   };
 
@@ -0,0 +1,76 @@
+// middleware.ts
+// Route guard; rules live in utils/routeAccess.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_SIGNED_IN_PATH,
+  getRouteRule,
+  hasRequiredRole,
+} from "./utils/routeAccess";
+import {
+  RETURN_TO_PARAM,
+  buildSignInUrl,
+  getSafeReturnTo,
+} from "./utils/authRedirect";
+import {
+  AUTH_COOKIE,
+  REFRESH_COOKIE,
+  getSessionPolicy,
+  isSessionExpired,
+} from "./utils/session";
+
+// Read the role claim from the access token. The signature isn't checked
+// here; the API still verifies the token on every call.
+const getTokenRole = (token?: string) => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).role;
+  } catch {
+    return undefined;
+  }
+};
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const rule = getRouteRule(pathname);
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  // An expired access cookie is renewed on the client (see httpClient), but
+  // not past the lifetime chosen at sign-in
+  const hasSession =
+    (!!token || request.cookies.has(REFRESH_COOKIE)) &&
+    !isSessionExpired(getSessionPolicy(request));
+
+  if (rule.access === "public") {
+    return NextResponse.next();
+  }
+
+  if (rule.access === "guest") {
+    if (!hasSession) {
+      return NextResponse.next();
+    }
+
+    const returnTo = getSafeReturnTo(
+      request.nextUrl.searchParams.get(RETURN_TO_PARAM),
+      DEFAULT_SIGNED_IN_PATH
+    );
+    return NextResponse.redirect(new URL(returnTo, request.url));
+  }
+
+  if (!hasSession) {
+    return NextResponse.redirect(
+      new URL(buildSignInUrl(`${pathname}${search}`), request.url)
+    );
+  }
+
+  // Without an access token the role is checked on the next navigation,
+  // once the client has refreshed the session
+  if (token && !hasRequiredRole(rule, getTokenRole(token))) {
+    return NextResponse.redirect(new URL(DEFAULT_SIGNED_IN_PATH, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip API routes, Next internals and static files
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)"],
+};
@@ -0,0 +1,449 @@
+// services/api.ts
+// Typed SDK for the backend API; every page and service calls through here
+import { AxiosRequestConfig } from "axios";
+import { httpClient, handleApiError } from "../utils/httpClient";
+import {
+  ApiResponse,
+  AvailabilityRequest,
+  BlackoutDatesRequest,
+  ChangePasswordRequest,
+  ChangePinRequest,
+  ConfirmEmailChangeRequest,
+  CreateBookingRequest,
+  EmailChangeRequest,
+  InitializePaymentRequest,
+  LoginRequest,
+  MockPaymentRequest,
+  ProfileData,
+  QuoteRequest,
+  RegisterRequest,
+  RescheduleRequest,
+  ResetPinRequest,
+  UpdatePasswordRequest,
+  User,
+} from "./apiTypes";
+import {
+  Schema,
+  activeSessionListSchema,
+  availabilitySchema,
+  blackoutDatesSchema,
+  bookingListSchema,
+  bookingSchema,
+  codeDeliverySchema,
+  createBookingSchema,
+  createResponseError,
+  initializePaymentSchema,
+  number,
+  object,
+  optional,
+  paymentStatusSchema,
+  phoneVerificationSchema,
+  pinVerificationSchema,
+  profileImageSchema,
+  quoteSchema,
+  refundSchema,
+  userSchema,
+  validateResponse,
+} from "./apiSchemas";
+
+// Send a request through httpClient, check the body against its schema and
+// unwrap it. Endpoints without a schema only have their envelope checked.
+const request = async <T>(
+  config: AxiosRequestConfig,
+  schema?: Schema<T>
+): Promise<ApiResponse<T>> => {
+  let response;
+  try {
+    response = await httpClient.request<ApiResponse<T>>(config);
+  } catch (error) {
+    throw handleApiError(error);
+  }
+
+  const fieldErrors = validateResponse(response.data, schema);
+  if (fieldErrors.length > 0) {
+    console.error(
+      `Unexpected response from ${config.method?.toUpperCase()} ${config.url}:`,
+      fieldErrors
+    );
+    throw createResponseError(response.status, fieldErrors);
+  }
+
+  return response.data;
+};
+
+const multipart = { headers: { "Content-Type": "multipart/form-data" } };
+
+// Our own route handlers (app/api) rather than the proxy: the session
+// endpoints keep the tokens in httpOnly cookies, phone verification sends
+// its SMS from there and the mock gateway signs its webhook there
+const appRoute = (url: string): AxiosRequestConfig => ({
+  baseURL: "",
+  url,
+});
+
+const seriesUrl = (seriesId: string, path = "") =>
+  `/api/v1/bookings/series/${seriesId}${path}`;
+
+const auth = {
+  login: (data: LoginRequest) =>
+    request(
+      { ...appRoute("/api/auth/login"), method: "post", data },
+      userSchema
+    ),
+
+  // Called by httpClient when the access token is rejected
+  refreshSession: () =>
+    request<null>({ ...appRoute("/api/auth/refresh"), method: "post" }),
+
+  // Revokes this session on the server, then clears the cookies
+  logout: () =>
+    request<null>({ ...appRoute("/api/auth/logout"), method: "post" }),
+
+  listSessions: () =>
+    request(
+      { method: "get", url: "/api/v1/auth/sessions" },
+      activeSessionListSchema
+    ),
+
+  revokeSession: (sessionId: string) =>
+    request<null>({
+      method: "delete",
+      url: `/api/v1/auth/sessions/${sessionId}`,
+    }),
+
+  // Every session, this one included
+  revokeAllSessions: () =>
+    request<null>({ method: "delete", url: "/api/v1/auth/sessions" }),
+
+  revokeOtherSessions: () =>
+    request<null>({ method: "delete", url: "/api/v1/auth/sessions/others" }),
+
+  register: (data: RegisterRequest) =>
+    request<User>({ method: "post", url: "/api/v1/auth/register", data }),
+
+  verifyEmail: (email: string, otp: string) =>
+    request<User>({
+      method: "post",
+      url: "/api/v1/auth/verifyotp",
+      data: { email, otp },
+    }),
+
+  // Emails a new sign-up verification code
+  resendVerification: (email: string) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/auth/resend-verification-otp",
+        data: { email },
+      },
+      codeDeliverySchema
+    ),
+
+  // Emails a password-reset PIN
+  forgotPassword: (email: string) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/auth/send-password-change-email",
+        data: { email },
+      },
+      codeDeliverySchema
+    ),
+
+  verifyPasswordPin: (email: string, pin: string) =>
+    request<null>({
+      method: "post",
+      url: "/api/v1/auth/verifypin",
+      data: { email, pin },
+    }),
+
+  changePassword: (data: ChangePasswordRequest) =>
+    request<null>({
+      method: "post",
+      url: "/api/v1/auth/change-password",
+      data,
+    }),
+};
+
+const user = {
+  getInfo: () =>
+    request(
+      {
+        method: "get",
+        url: "/api/v1/user/user-info",
+        // Profile data must never come from a cached response
+        params: { _t: Date.now() },
+        headers: { "Cache-Control": "no-cache", Pragma: "no-cache" },
+      },
+      userSchema
+    ),
+
+  // Accepts JSON, or FormData when a profile image is included
+  fillData: (data: ProfileData | FormData) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/user/fill-data",
+        data,
+        ...(data instanceof FormData ? multipart : {}),
+      },
+      userSchema
+    ),
+
+  updateProfile: (data: ProfileData) =>
+    request(
+      { method: "put", url: "/api/v1/user/update-profile", data },
+      userSchema
+    ),
+
+  uploadProfileImage: (data: FormData) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/user/upload-profile-image",
+        data,
+        ...multipart,
+      },
+      profileImageSchema
+    ),
+
+  updateProfileImage: (data: FormData) =>
+    request(
+      {
+        method: "put",
+        url: "/api/v1/user/update-profile-image",
+        data,
+        ...multipart,
+      },
+      profileImageSchema
+    ),
+
+  deleteProfileImage: () =>
+    request<null>({
+      method: "delete",
+      url: "/api/v1/user/delete-profile-image",
+    }),
+
+  // Needs the current password; the reset flow uses auth.changePassword
+  updatePassword: (data: UpdatePasswordRequest) =>
+    request<null>({
+      method: "post",
+      url: "/api/v1/user/update-password",
+      data,
+    }),
+
+  // Emails a code to the new address; the account keeps the old one until
+  // confirmEmailChange, which also sends the old address a security notice
+  requestEmailChange: (data: EmailChangeRequest) =>
+    request(
+      { method: "post", url: "/api/v1/user/change-email", data },
+      codeDeliverySchema
+    ),
+
+  confirmEmailChange: (data: ConfirmEmailChangeRequest) =>
+    request(
+      { method: "post", url: "/api/v1/user/confirm-email-change", data },
+      userSchema
+    ),
+
+  // Texts a code to the number; verifyPhone marks it verified on the profile
+  sendPhoneCode: (phone: string) =>
+    request(
+      {
+        ...appRoute("/api/phone/send-code"),
+        method: "post",
+        data: { phone },
+      },
+      codeDeliverySchema
+    ),
+
+  verifyPhone: (code: string) =>
+    request(
+      { ...appRoute("/api/phone/verify"), method: "post", data: { code } },
+      phoneVerificationSchema
+    ),
+
+  // Transaction PIN; a wrong or locked PIN fails with PinAttemptStatus data
+  createPin: (user_id: string, pin: string) =>
+    request<null>({
+      method: "post",
+      url: "/api/v1/user/create-pin",
+      data: { user_id, pin },
+    }),
+
+  // Returns the pinToken that createBooking and payments.initialize need
+  verifyPin: (user_id: string, pin: string) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/user/verify-pin",
+        data: { user_id, pin },
+      },
+      pinVerificationSchema
+    ),
+
+  changePin: (data: ChangePinRequest) =>
+    request<null>({ method: "post", url: "/api/v1/user/change-pin", data }),
+
+  // Emails a code to the account address for resetPin
+  requestPinReset: () =>
+    request<null>({ method: "post", url: "/api/v1/user/forgot-pin" }),
+
+  resetPin: (data: ResetPinRequest) =>
+    request<null>({ method: "post", url: "/api/v1/user/reset-pin", data }),
+};
+
+const services = {
+  getQuote: (data: QuoteRequest) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/service/quote",
+        data,
+      },
+      quoteSchema
+    ),
+
+  createBooking: (data: CreateBookingRequest, idempotencyKey: string) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/service/create-service",
+        data,
+        headers: { "Idempotency-Key": idempotencyKey },
+      },
+      createBookingSchema
+    ),
+
+  getAvailability: (params: AvailabilityRequest) =>
+    request(
+      {
+        method: "get",
+        url: "/api/v1/availability/slots",
+        params,
+      },
+      availabilitySchema
+    ),
+
+  getBlackoutDates: (params: BlackoutDatesRequest) =>
+    request(
+      {
+        method: "get",
+        url: "/api/v1/availability/blackout-dates",
+        params,
+      },
+      blackoutDatesSchema
+    ),
+};
+
+const bookings = {
+  list: () =>
+    request({ method: "get", url: "/api/v1/bookings" }, bookingListSchema),
+
+  skipOccurrence: (seriesId: string, occurrenceId: string) =>
+    request(
+      {
+        method: "post",
+        url: seriesUrl(seriesId, `/occurrences/${occurrenceId}/skip`),
+      },
+      bookingSchema
+    ),
+
+  rescheduleOccurrence: (
+    seriesId: string,
+    occurrenceId: string,
+    data: RescheduleRequest
+  ) =>
+    request(
+      {
+        method: "patch",
+        url: seriesUrl(seriesId, `/occurrences/${occurrenceId}`),
+        data,
+      },
+      bookingSchema
+    ),
+
+  cancelOccurrence: (seriesId: string, occurrenceId: string) =>
+    request(
+      {
+        method: "post",
+        url: seriesUrl(seriesId, `/occurrences/${occurrenceId}/cancel`),
+      },
+      bookingSchema
+    ),
+
+  pauseSeries: (seriesId: string) =>
+    request(
+      { method: "post", url: seriesUrl(seriesId, "/pause") },
+      bookingListSchema
+    ),
+
+  resumeSeries: (seriesId: string) =>
+    request(
+      { method: "post", url: seriesUrl(seriesId, "/resume") },
+      bookingListSchema
+    ),
+
+  rescheduleSeries: (seriesId: string, data: RescheduleRequest) =>
+    request(
+      { method: "patch", url: seriesUrl(seriesId), data },
+      bookingListSchema
+    ),
+
+  cancelSeries: (seriesId: string) =>
+    request(
+      { method: "post", url: seriesUrl(seriesId, "/cancel") },
+      bookingListSchema
+    ),
+};
+
+const payments = {
+  initialize: (data: InitializePaymentRequest) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/payments/initialize",
+        data,
+      },
+      initializePaymentSchema
+    ),
+
+  verify: (reference: string) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/payments/verify",
+        data: { reference },
+      },
+      // Verification only reports the amount back; the status is `success`
+      object({ amount: optional(number) })
+    ),
+
+  refund: (reference: string, amount?: number) =>
+    request(
+      {
+        method: "post",
+        url: "/api/v1/payments/refund",
+        data: { reference, amount },
+      },
+      refundSchema
+    ),
+
+  getStatus: (reference: string) =>
+    request(
+      {
+        method: "get",
+        url: `/api/v1/payments/${encodeURIComponent(reference)}`,
+      },
+      paymentStatusSchema
+    ),
+
+  // Mock gateway only: delivers the result through the webhook, as a real
+  // gateway would
+  completeMock: (data: MockPaymentRequest) =>
+    request<null>({ ...appRoute("/api/payments/mock"), method: "post", data }),
+};
+
+const api = { auth, user, services, bookings, payments };
+
+export default api;
@@ -0,0 +1,224 @@
+// services/apiSchemas.ts
+// Runtime checks for API responses, so contract drift fails at the SDK boundary
+import { ServerQuote } from "../utils/pricing";
+import {
+  ActiveSession,
+  ApiError,
+  AvailabilityResponse,
+  BlackoutDatesResponse,
+  CodeDeliveryResponse,
+  Booking,
+  CreateBookingResponse,
+  FieldError,
+  InitializePaymentResponse,
+  PhoneVerificationResponse,
+  PinVerificationResponse,
+  PaymentStatusResponse,
+  ProfileImageResponse,
+  RefundResponse,
+  User,
+} from "./apiTypes";
+
+// A schema returns one entry per field that doesn't match; empty means valid
+export type Schema<T> = ((value: unknown, path: string) => FieldError[]) & {
+  // Only carries the validated type for request<T>, never set at runtime
+  __type?: T;
+};
+
+const describe = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const primitive =
+  <T>(type: string): Schema<T> =>
+  (value, path) =>
+    typeof value === type && !(type === "number" && Number.isNaN(value))
+      ? []
+      : [{ path, message: `expected ${type}, received ${describe(value)}` }];
+
+export const string = primitive<string>("string");
+export const number = primitive<number>("number");
+export const boolean = primitive<boolean>("boolean");
+
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? [] : schema(value, path);
+
+export const oneOf =
+  <T extends string>(values: T[]): Schema<T> =>
+  (value, path) =>
+    values.includes(value as T)
+      ? []
+      : [
+          {
+            path,
+            message: `expected one of ${values.join(", ")}, received ${
+              typeof value === "string" ? `"${value}"` : describe(value)
+            }`,
+          },
+        ];
+
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((entry, index) => item(entry, `${path}[${index}]`))
+      : [{ path, message: `expected array, received ${describe(value)}` }];
+
+// Unlisted keys are allowed; only the fields the app reads are checked. T is
+// inferred from the shape, or given to check the shape against a model.
+export const object =
+  <T>(shape: { [K in keyof T]?: Schema<T[K]> }): Schema<T> =>
+  (value: { [key: string]: unknown }, path) => {
+    if (describe(value) !== "object") {
+      return [
+        { path, message: `expected object, received ${describe(value)}` },
+      ];
+    }
+
+    return Object.keys(shape).flatMap((key) =>
+      shape[key](value[key], `${path}.${key}`)
+    );
+  };
+
+// Check the envelope, then the payload of successful responses
+export const validateResponse = <T>(body, schema?: Schema<T>) => {
+  const errors = object({ success: boolean, message: optional(string) })(
+    body,
+    "response"
+  );
+  if (errors.length > 0 || !schema || !body.success) {
+    return errors;
+  }
+
+  return schema(body.data, "response.data");
+};
+
+export const createResponseError = (
+  status: number,
+  fieldErrors: FieldError[]
+): ApiError => ({
+  isApiError: true,
+  code: "INVALID_RESPONSE",
+  status,
+  message:
+    "We received an unexpected response from the server. Please try again later.",
+  data: null,
+  fieldErrors,
+});
+
+// Auth and user
+
+const userFields = {
+  user_id: optional(string),
+  id: optional(string),
+  email: optional(string),
+  firstName: optional(string),
+  lastName: optional(string),
+  profileImage: optional(string),
+  hasPin: optional(boolean),
+  mobile: optional(string),
+  mobileVerified: optional(boolean),
+};
+
+export const userSchema = object<User>(userFields);
+
+export const activeSessionListSchema = array(
+  object<ActiveSession>({
+    id: string,
+    device: optional(string),
+    browser: optional(string),
+    lastSeenAt: string,
+    createdAt: optional(string),
+    current: optional(boolean),
+  })
+);
+
+// Older API versions send no delivery details
+export const codeDeliverySchema = optional(
+  object<CodeDeliveryResponse>({
+    expiresAt: optional(string),
+    retryAfterSeconds: optional(number),
+  })
+);
+
+export const phoneVerificationSchema = object<PhoneVerificationResponse>({
+  mobile: string,
+  mobileVerified: boolean,
+});
+
+export const pinVerificationSchema = object<PinVerificationResponse>({
+  pinToken: string,
+});
+
+export const profileImageSchema = object<ProfileImageResponse>({
+  profileImage: optional(string),
+  imageUrl: optional(string),
+});
+
+// Services
+
+export const quoteSchema = object<ServerQuote>({
+  quoteId: string,
+  lineItems: array(object({ label: string, amount: number })),
+  subtotal: number,
+  discount: number,
+  finalPrice: number,
+  expiresAt: optional(string),
+});
+
+export const createBookingSchema = object<CreateBookingResponse>({
+  cleaningService: object({ _id: string }),
+});
+
+export const availabilitySchema = object<AvailabilityResponse>({
+  slots: array(
+    object({ time: string, available: boolean, remaining: optional(number) })
+  ),
+  minLeadHours: optional(number),
+});
+
+export const blackoutDatesSchema = object<BlackoutDatesResponse>({
+  dates: array(string),
+  minLeadHours: optional(number),
+});
+
+// Bookings
+
+export const bookingSchema = object<Booking>({
+  id: string,
+  status: optional(string),
+  booking_date: optional(string),
+  booking_time: optional(string),
+  amount: optional(number),
+  payment_status: optional(string),
+  series_id: optional(string),
+  series_status: optional(oneOf(["active", "paused"])),
+  occurrence_id: optional(string),
+  occurrence_number: optional(number),
+  occurrence_count: optional(number),
+});
+
+export const bookingListSchema = array(bookingSchema);
+
+// Payments
+
+export const initializePaymentSchema = object<InitializePaymentResponse>({
+  authorization_url: optional(string),
+  reference: string,
+  access_code: optional(string),
+});
+
+export const paymentStatusSchema = object<PaymentStatusResponse>({
+  reference: string,
+  status: oneOf(["paid", "pending", "failed", "refunded"]),
+  amount: optional(number),
+});
+
+export const refundSchema = object<RefundResponse>({
+  status: string,
+  amount: optional(number),
+});
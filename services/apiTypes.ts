@@ -0,0 +1,272 @@
+// services/apiTypes.ts
+// Request and response models for the backend API
+import { PriceInput } from "../utils/pricing";
+import { SeriesRecurrence } from "../utils/bookingSeries";
+
+// Every endpoint wraps its payload in this envelope
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data: T;
+}
+
+// A response field that didn't match its schema (see apiSchemas)
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+// Shape thrown by every SDK call (see handleApiError)
+export interface ApiError {
+  isApiError: true;
+  status: number;
+  message: string;
+  data: unknown;
+  // Set when the request succeeded but the body broke the API contract
+  code?: "INVALID_RESPONSE";
+  fieldErrors?: FieldError[];
+}
+
+// Auth
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  rememberMe?: boolean;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+// Sent with an emailed code; also in the error data of a refused resend (429)
+export interface CodeDeliveryResponse {
+  expiresAt?: string;
+  retryAfterSeconds?: number;
+}
+
+export interface ChangePasswordRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+// Changing the password while signed in
+export interface UpdatePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// Changing the account email; the old address stays until the code is confirmed
+export interface EmailChangeRequest {
+  newEmail: string;
+  password: string;
+}
+
+export interface ConfirmEmailChangeRequest {
+  newEmail: string;
+  otp: string;
+}
+
+// A signed-in device; device and browser come from its user agent
+export interface ActiveSession {
+  id: string;
+  device?: string;
+  browser?: string;
+  lastSeenAt: string;
+  createdAt?: string;
+  // The session making the request
+  current?: boolean;
+}
+
+// User
+
+// user_id is the only id the app reads (see normalizeUser in tokenService)
+export interface User {
+  user_id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  dateOfBirth?: string;
+  mobile?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  profileImage?: string;
+  // Whether a transaction PIN has been set up
+  hasPin?: boolean;
+  // Set once mobile has been confirmed by SMS
+  mobileVerified?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ProfileData {
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  dateOfBirth?: string;
+  // No email: it only changes through user.requestEmailChange
+  mobile?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+}
+
+export interface ProfileImageResponse {
+  profileImage?: string;
+  imageUrl?: string;
+}
+
+export interface PhoneVerificationResponse {
+  mobile: string;
+  mobileVerified: boolean;
+}
+
+// Proof that the PIN was just entered; the API only creates bookings and
+// starts payments with a current one
+export interface PinVerificationResponse {
+  pinToken: string;
+}
+
+// Sent in the error data when a transaction PIN is wrong or locked
+export interface PinAttemptStatus {
+  attemptsRemaining?: number;
+  lockedUntil?: string;
+}
+
+export interface ChangePinRequest {
+  currentPin: string;
+  newPin: string;
+}
+
+// The code comes from the email sent by requestPinReset
+export interface ResetPinRequest {
+  otp: string;
+  newPin: string;
+}
+
+// Services
+
+export interface QuoteRequest {
+  priceInput: PriceInput;
+}
+
+export interface CreateBookingRequest {
+  user_id: string;
+  serviceType: string;
+  serviceName: string;
+  serviceCategory: string;
+  areas: string[];
+  priceInput: PriceInput;
+  details?: { [key: string]: unknown };
+  bookingDate: string;
+  bookingTime: string;
+  location: string;
+  serviceRate: string;
+  quoteId: string;
+  recurrence: SeriesRecurrence | null;
+  paymentProvider: string;
+  pinToken: string;
+}
+
+export interface CreateBookingResponse {
+  cleaningService: {
+    _id: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface AvailabilityRequest {
+  serviceType: string;
+  date: string;
+  area: string;
+}
+
+export interface AvailabilitySlot {
+  time: string;
+  available: boolean;
+  remaining?: number;
+}
+
+export interface AvailabilityResponse {
+  slots: AvailabilitySlot[];
+  minLeadHours?: number;
+}
+
+export interface BlackoutDatesRequest {
+  serviceType: string;
+  month: string;
+}
+
+export interface BlackoutDatesResponse {
+  dates: string[];
+  minLeadHours?: number;
+}
+
+// Bookings
+
+export interface Booking {
+  id: string;
+  booking_id?: string;
+  service_type?: string;
+  status?: string;
+  booking_date?: string;
+  booking_time?: string;
+  location?: string;
+  amount?: number;
+  payment_status?: string;
+  payment_provider?: string;
+  // Recurring series fields, only set for bookings that belong to a series
+  series_id?: string;
+  series_status?: "active" | "paused";
+  occurrence_id?: string;
+  occurrence_number?: number;
+  occurrence_count?: number;
+  frequency?: string;
+}
+
+export interface RescheduleRequest {
+  bookingDate: string;
+  bookingTime: string;
+  // Series only: the visit to move from; earlier visits keep their dates
+  fromOccurrence?: string;
+}
+
+// Payments
+
+export interface InitializePaymentRequest {
+  provider: string;
+  bookingId: string;
+  amount: number;
+  callbackUrl: string;
+  pinToken: string;
+}
+
+export interface InitializePaymentResponse {
+  // Hosted checkout page; the mock provider has none
+  authorization_url?: string;
+  access_code?: string;
+  reference: string;
+}
+
+// The developer's choice on the mock checkout page
+export interface MockPaymentRequest {
+  reference: string;
+  approved: boolean;
+  amount?: number;
+}
+
+export interface PaymentStatusResponse {
+  reference: string;
+  status: "paid" | "pending" | "failed" | "refunded";
+  amount?: number;
+}
+
+export interface RefundResponse {
+  status: string;
+  amount?: number;
+}
@@ -1,12 +1,14 @@
 // services/authService.js
-import { httpClient, handleApiError } from "../utils/httpClient";
-import { TokenService } from "../utils/tokenService";
+import api from "./api";
+import { handleApiError } from "../utils/httpClient";
+import { TokenService, endSession } from "../utils/tokenService";
+import { recordActivity } from "../utils/idleTimeout";
 import toastUtils from "../utils/toastUtils";
 import toast from "react-hot-toast";
 
 const AuthService = {
-  // Login user
-  login: async (email, password, showToast = false) => {
+  // Login user; rememberMe picks the longer session (see sessionLifetime)
+  login: async (email, password, showToast = false, rememberMe = false) => {
     let loadingToastId;
 
     try {
@@ -14,18 +16,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Logging in...");
       }
 
-      const response = await httpClient.post("/api/v1/auth/login", {
-        email,
-        password,
-      });
+      // The session cookies are set by the server; only the user comes back
+      const response = await api.auth.login({ email, password, rememberMe });
 
       // Handle the login response with your specific structure
-      if (response.data.success && response.data.data) {
-        const { token, ...userData } = response.data.data;
-
-        // Save the token and user data
-        TokenService.saveToken(token);
-        TokenService.saveUserData(userData);
+      if (response.success && response.data) {
+        TokenService.saveUserData(response.data);
+        // Start the idle clock from this sign-in
+        recordActivity(true);
 
         if (showToast) {
           // Dismiss loading toast and show success
@@ -34,7 +32,7 @@ const AuthService = {
         }
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         // Dismiss loading toast and show error
@@ -54,14 +52,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Creating your account...");
       }
 
-      const response = await httpClient.post("/api/v1/auth/register", userData);
+      const response = await api.auth.register(userData);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Account created successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -80,17 +78,40 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Verifying OTP...");
       }
 
-      const response = await httpClient.post("/api/v1/auth/verifyotp", {
-        email,
-        otp,
-      });
+      const response = await api.auth.verifyEmail(email, otp);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Email verified successfully!");
       }
 
-      return response.data;
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Resend the sign-up verification code
+  resendVerification: async (email, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Sending a new code...");
+      }
+
+      const response = await api.auth.resendVerification(email);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("A new verification code is on its way!");
+      }
+
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -109,17 +130,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Sending reset email...");
       }
 
-      const response = await httpClient.post(
-        "/api/v1/auth/send-password-change-email",
-        { email }
-      );
+      const response = await api.auth.forgotPassword(email);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Password reset email sent!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -138,17 +156,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Verifying PIN...");
       }
 
-      const response = await httpClient.post("/api/v1/auth/verifypin", {
-        email,
-        pin,
-      });
+      const response = await api.auth.verifyPasswordPin(email, pin);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("PIN verified successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -172,18 +187,18 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Updating password...");
       }
 
-      const response = await httpClient.post("/api/v1/auth/change-password", {
+      const response = await api.auth.changePassword({
         email,
         password,
         confirmPassword,
       });
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Password updated successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -194,16 +209,75 @@ const AuthService = {
   },
 
   // Logout user
-  logout: (showToast = false) => {
-    TokenService.removeToken();
-    TokenService.removeUserData();
+  logout: async (showToast = false) => {
+    await endSession();
 
     if (showToast) {
       toastUtils.success("Logged out successfully!");
     }
+  },
+
+  // Revoke every session, this one included, then sign out here
+  logoutEverywhere: async (showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Signing out everywhere...");
+      }
+
+      await api.auth.revokeAllSessions();
+      await endSession();
+
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Signed out of all devices");
+      }
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // List the devices signed in to this account
+  getSessions: async (showToast = false) => {
+    try {
+      return await api.auth.listSessions();
+    } catch (error) {
+      if (showToast) {
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Sign out one other device
+  revokeSession: async (sessionId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Signing out device...");
+      }
+
+      const response = await api.auth.revokeSession(sessionId);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Device signed out");
+      }
 
-    // Optionally call logout API endpoint
-    // return httpClient.post('/auth/logout');
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
   },
 
   // Create PIN
@@ -215,17 +289,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Creating PIN...");
       }
 
-      const response = await httpClient.post("/user/create-pin", {
-        user_id,
-        pin,
-      });
+      const response = await api.user.createPin(user_id, pin);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("PIN created successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -244,17 +315,251 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Verifying PIN...");
       }
 
-      const response = await httpClient.post("/user/verify-pin", {
-        user_id,
-        pin,
-      });
+      const response = await api.user.verifyPin(user_id, pin);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("PIN verified successfully!");
       }
 
-      return response.data;
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Change the password while signed in, then sign out every other device.
+  // sessionsRevoked on the result says whether that worked.
+  updatePassword: async (currentPassword, newPassword, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Updating password...");
+      }
+
+      const response = await api.user.updatePassword({
+        currentPassword,
+        newPassword,
+      });
+      if (!response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        return { ...response, sessionsRevoked: false };
+      }
+
+      // The password has changed even if this fails; the devices can still
+      // be removed from the sessions list
+      let sessionsRevoked = true;
+      try {
+        await api.auth.revokeOtherSessions();
+      } catch (error) {
+        console.error("Error signing out other sessions:", error);
+        sessionsRevoked = false;
+      }
+
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        if (sessionsRevoked) {
+          toastUtils.success(
+            "Password updated. Your other devices have been signed out."
+          );
+        } else {
+          toastUtils.error(
+            "Password updated, but we couldn't sign out your other devices. Sign them out from Active sessions."
+          );
+        }
+      }
+
+      return { ...response, sessionsRevoked };
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Change PIN; needs the current one
+  changePin: async (currentPin, newPin, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Changing PIN...");
+      }
+
+      const response = await api.user.changePin({ currentPin, newPin });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("PIN changed successfully!");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Email a code for resetting a forgotten PIN
+  requestPinReset: async (showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Sending reset code...");
+      }
+
+      const response = await api.user.requestPinReset();
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("We've emailed you a code to reset your PIN.");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Set a new PIN with the emailed code
+  resetPin: async (otp, newPin, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Resetting PIN...");
+      }
+
+      const response = await api.user.resetPin({ otp, newPin });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("PIN reset successfully!");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Text a verification code to a phone number
+  sendPhoneCode: async (phone, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Sending code...");
+      }
+
+      const response = await api.user.sendPhoneCode(phone);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("We've texted you a code.");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Confirm the texted code; the number is then verified
+  verifyPhone: async (code, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Verifying...");
+      }
+
+      const response = await api.user.verifyPhone(code);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Phone number verified!");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Start an email change; the code goes to the new address
+  requestEmailChange: async (newEmail, password, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Sending code...");
+      }
+
+      const response = await api.user.requestEmailChange({
+        newEmail,
+        password,
+      });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success(`We've emailed a code to ${newEmail}.`);
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Confirm the emailed code; only now does the account use the new address
+  confirmEmailChange: async (newEmail, otp, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Verifying...");
+      }
+
+      const response = await api.user.confirmEmailChange({ newEmail, otp });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Email address updated!");
+      }
+
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -285,7 +590,6 @@ const AuthService = {
         formDataToSend.append("username", profileData.username);
       if (profileData.dateOfBirth)
         formDataToSend.append("dateOfBirth", profileData.dateOfBirth);
-      if (profileData.email) formDataToSend.append("email", profileData.email);
       if (profileData.mobile)
         formDataToSend.append("mobile", profileData.mobile);
       if (profileData.address)
@@ -299,23 +603,14 @@ const AuthService = {
       }
 
       // Send request to the correct endpoint
-      const response = await httpClient.post(
-        "/api/v1/user/fill-data",
-        formDataToSend,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-          withCredentials: true, // Ensure cookies with auth token are sent
-        }
-      );
+      const response = await api.user.fillData(formDataToSend);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Profile updated successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -334,14 +629,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Loading user information...");
       }
 
-      const response = await httpClient.get("/api/v1/user/user-info");
+      const response = await api.user.getInfo();
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         // Don't show success toast for fetching user info as it's automatic
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -360,17 +655,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Updating profile...");
       }
 
-      const response = await httpClient.put(
-        "/api/v1/user/update-profile",
-        profileData
-      );
+      const response = await api.user.updateProfile(profileData);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Profile updated successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -393,22 +685,14 @@ const AuthService = {
       formData.append("image", imageFile);
       formData.append("user_id", userId);
 
-      const response = await httpClient.post(
-        "/api/v1/user/upload-profile-image",
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
+      const response = await api.user.uploadProfileImage(formData);
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Profile image updated successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
@@ -427,16 +711,14 @@ const AuthService = {
         loadingToastId = toastUtils.loading("Deleting image...");
       }
 
-      const response = await httpClient.delete(
-        "/api/v1/user/delete-profile-image"
-      );
+      const response = await api.user.deleteProfileImage();
 
-      if (showToast && response.data.success) {
+      if (showToast && response.success) {
         if (loadingToastId) toast.dismiss(loadingToastId);
         toastUtils.success("Profile image deleted successfully!");
       }
 
-      return response.data;
+      return response;
     } catch (error) {
       if (showToast) {
         if (loadingToastId) toast.dismiss(loadingToastId);
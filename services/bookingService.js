@@ -0,0 +1,331 @@
+// services/bookingService.js
+import api from "./api";
+import { handleApiError } from "../utils/httpClient";
+import toastUtils from "../utils/toastUtils";
+import toast from "react-hot-toast";
+
+const BookingService = {
+  // Request a server-side price quote for a booking
+  getQuote: async (priceInput, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Fetching latest price...");
+      }
+
+      const response = await api.services.getQuote({ priceInput });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Create a booking for the customer's draft; payment is started separately.
+  // Repeating a request with the same idempotency key returns the same booking.
+  createBooking: async (serviceData, idempotencyKey, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Creating your booking...");
+      }
+
+      const response = await api.services.createBooking(
+        serviceData,
+        idempotencyKey
+      );
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Get the payment status recorded on the server for a payment reference
+  getPaymentStatus: async (reference, showToast = false) => {
+    try {
+      const response = await api.payments.getStatus(reference);
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Get the signed-in customer's bookings
+  getBookings: async (showToast = false) => {
+    try {
+      const response = await api.bookings.list();
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Get bookable time slots for a service on a date in an area
+  getAvailability: async ({ serviceType, date, area }, showToast = false) => {
+    try {
+      const response = await api.services.getAvailability({
+        serviceType,
+        date,
+        area,
+      });
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Get blackout dates and the minimum lead time for a service in a month
+  getBlackoutDates: async ({ serviceType, month }, showToast = false) => {
+    try {
+      const response = await api.services.getBlackoutDates({
+        serviceType,
+        month,
+      });
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Skip a single visit in a recurring series
+  skipOccurrence: async (seriesId, occurrenceId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Skipping visit...");
+      }
+
+      const response = await api.bookings.skipOccurrence(
+        seriesId,
+        occurrenceId
+      );
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Visit skipped");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Move a single visit in a recurring series to a new date and time
+  rescheduleOccurrence: async (
+    seriesId,
+    occurrenceId,
+    { bookingDate, bookingTime },
+    showToast = false
+  ) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Rescheduling visit...");
+      }
+
+      const response = await api.bookings.rescheduleOccurrence(
+        seriesId,
+        occurrenceId,
+        { bookingDate, bookingTime }
+      );
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Visit rescheduled");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Cancel a single visit in a recurring series
+  cancelOccurrence: async (seriesId, occurrenceId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Cancelling visit...");
+      }
+
+      const response = await api.bookings.cancelOccurrence(
+        seriesId,
+        occurrenceId
+      );
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Visit cancelled");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Pause every upcoming visit in a series until it is resumed
+  pauseSeries: async (seriesId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Pausing series...");
+      }
+
+      const response = await api.bookings.pauseSeries(seriesId);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Series paused");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Resume a paused series from the next available visit
+  resumeSeries: async (seriesId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Resuming series...");
+      }
+
+      const response = await api.bookings.resumeSeries(seriesId);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Series resumed");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Move a visit and every later one in its series; earlier visits stay put
+  rescheduleSeries: async (
+    seriesId,
+    { bookingDate, bookingTime, fromOccurrence },
+    showToast = false
+  ) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Rescheduling series...");
+      }
+
+      const response = await api.bookings.rescheduleSeries(seriesId, {
+        bookingDate,
+        bookingTime,
+        fromOccurrence,
+      });
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Series rescheduled");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+
+  // Cancel every upcoming visit in a series
+  cancelSeries: async (seriesId, showToast = false) => {
+    let loadingToastId;
+
+    try {
+      if (showToast) {
+        loadingToastId = toastUtils.loading("Cancelling series...");
+      }
+
+      const response = await api.bookings.cancelSeries(seriesId);
+
+      if (showToast && response.success) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.success("Series cancelled");
+      }
+
+      return response;
+    } catch (error) {
+      if (showToast) {
+        if (loadingToastId) toast.dismiss(loadingToastId);
+        toastUtils.handleApiError(error);
+      }
+      throw handleApiError(error);
+    }
+  },
+};
+
+export default BookingService;
@@ -0,0 +1,49 @@
+// utils/authRedirect.ts
+// Sign-in URLs that remember where the user was going
+
+export const SIGN_IN_PATH = "/auth/signin";
+export const RETURN_TO_PARAM = "returnTo";
+
+const PLACEHOLDER_ORIGIN = "https://return-to.invalid";
+
+// Only same-site paths are followed, never another host. Browsers read "\"
+// as "/" and drop tabs and newlines, so "/\evil.com" would otherwise leave
+// the site; the URL parse catches anything else that resolves elsewhere.
+const isSameSitePath = (value: string) => {
+  if (!value.startsWith("/") || value.startsWith("//")) return false;
+  if (/[\\\u0000-\u001f\u007f]/.test(value)) return false;
+
+  try {
+    return new URL(value, PLACEHOLDER_ORIGIN).origin === PLACEHOLDER_ORIGIN;
+  } catch {
+    return false;
+  }
+};
+
+export const getSafeReturnTo = (value: string | null, fallback = "/") =>
+  value && isSameSitePath(value) ? value : fallback;
+
+export const buildSignInUrl = (returnTo?: string) => {
+  const safeReturnTo = getSafeReturnTo(returnTo || null, "");
+  if (!safeReturnTo || safeReturnTo.startsWith(SIGN_IN_PATH)) {
+    return SIGN_IN_PATH;
+  }
+
+  return `${SIGN_IN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(
+    safeReturnTo
+  )}`;
+};
+
+export const getCurrentPath = () =>
+  typeof window !== "undefined"
+    ? `${window.location.pathname}${window.location.search}`
+    : "/";
+
+// Read the return path from the current sign-in URL
+export const getReturnTo = (fallback = "/") =>
+  typeof window !== "undefined"
+    ? getSafeReturnTo(
+        new URLSearchParams(window.location.search).get(RETURN_TO_PARAM),
+        fallback
+      )
+    : fallback;
@@ -0,0 +1,42 @@
+// utils/authSync.js
+// Keeps every open tab on the same session (see AuthContext)
+
+const CHANNEL_NAME = "auth";
+
+export const AUTH_EVENTS = {
+  LOGIN: "login",
+  LOGOUT: "logout",
+  USER_UPDATED: "user-updated",
+};
+
+let channel = null;
+
+const getChannel = () => {
+  if (
+    typeof window === "undefined" ||
+    typeof BroadcastChannel === "undefined"
+  ) {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+// Tell the other tabs; the sending tab doesn't receive its own message
+export const broadcastAuthEvent = (type, user = null) => {
+  getChannel()?.postMessage({ type, user });
+};
+
+// Returns an unsubscribe function
+export const subscribeToAuthEvents = (handler) => {
+  const authChannel = getChannel();
+  if (!authChannel) {
+    return () => {};
+  }
+
+  const listener = (event) => handler(event.data);
+  authChannel.addEventListener("message", listener);
+  return () => authChannel.removeEventListener("message", listener);
+};
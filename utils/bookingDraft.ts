@@ -0,0 +1,539 @@
+// utils/bookingDraft.ts
+// Versioned booking draft shared by every service page and checkout
+import {
+  CleaningPriceInput,
+  GardeningPriceInput,
+  LaundryPriceInput,
+  MovingPriceInput,
+  RepairsPriceInput,
+  ServiceType,
+  GARDEN_SIZES,
+  LAUNDRY_OPTIONS,
+  REPAIR_TYPES,
+  REPAIR_URGENCIES,
+} from "./pricing";
+
+export const BOOKING_DRAFT_KEY = "booking_draft";
+export const BOOKING_DRAFT_VERSION = 2;
+
+// Keys the booking pages wrote before the draft store existed
+const LEGACY_KEYS = [
+  "bookingData",
+  "cleaningItems",
+  "laundryOption",
+  "moveOutRooms",
+  "gardeningServices",
+  "repairRequest",
+];
+
+// Where each service is configured, used to send customers back to edit
+export const SERVICE_ROUTES: { [key in ServiceType]: string } = {
+  "house-cleaning": "/booking/house-cleaning",
+  laundry: "/booking/laundry",
+  moving: "/booking/moving",
+  gardening: "/booking/gardning",
+  repairs: "/booking/repairs",
+};
+
+export const SERVICE_NAMES: { [key in ServiceType]: string } = {
+  "house-cleaning": "Cleaning",
+  laundry: "Laundry",
+  moving: "Moving",
+  gardening: "Gardening",
+  repairs: "Repairs",
+};
+
+export interface DraftSchedule {
+  bookingDate: string;
+  bookingTime: string;
+  location: string;
+}
+
+export interface DraftBooking {
+  id: string;
+  paymentStatus: string;
+  paymentReference?: string;
+  // Name of the PaymentProvider that took the payment
+  paymentProvider?: string;
+  // Amount charged, so a failed payment can be retried for the same booking
+  amount?: number;
+}
+
+export interface CleaningCustomerInfo {
+  phone: string;
+  address: string;
+  notes: string;
+  specialRequests: string[];
+  reminders: {
+    sms: boolean;
+    email: boolean;
+  };
+}
+
+// Backend-format cleaning payload for /house-cleaning/create
+export interface CleaningData {
+  category?: string;
+  package?: string;
+  items: { [room: string]: number };
+  homeSize?: string;
+  frequency?: string;
+  estimatedPrice: number;
+  estimatedTime: string;
+  preferredTime?: string;
+  specialInstructions?: string;
+  turnaround: string;
+}
+
+interface DraftBase {
+  version: number;
+  updatedAt: string;
+  // Sent with booking creation so retries return the same booking
+  idempotencyKey: string;
+  customerId?: string;
+  schedule: DraftSchedule | null;
+  booking: DraftBooking | null;
+}
+
+export interface CleaningDraft extends DraftBase {
+  serviceType: "house-cleaning";
+  priceInput: CleaningPriceInput;
+  details: {
+    preferredTime?: string;
+    specialInstructions?: string;
+    customerInfo?: CleaningCustomerInfo;
+    cleaningData?: CleaningData;
+  };
+}
+
+export interface LaundryDraft extends DraftBase {
+  serviceType: "laundry";
+  priceInput: LaundryPriceInput;
+}
+
+export interface MovingDraft extends DraftBase {
+  serviceType: "moving";
+  priceInput: MovingPriceInput;
+}
+
+export interface GardeningDraft extends DraftBase {
+  serviceType: "gardening";
+  priceInput: GardeningPriceInput;
+}
+
+export interface RepairsDraft extends DraftBase {
+  serviceType: "repairs";
+  priceInput: RepairsPriceInput;
+  details: {
+    description: string;
+    photosCount: number;
+  };
+}
+
+export type BookingDraft =
+  CleaningDraft | LaundryDraft | MovingDraft | GardeningDraft | RepairsDraft;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// What a service page provides when it starts a new draft
+export type NewBookingDraft = DistributiveOmit<
+  BookingDraft,
+  "version" | "updatedAt" | "idempotencyKey" | "schedule" | "booking"
+>;
+
+// A stored draft of any schema version; its shape depends on the version
+interface VersionedDraft {
+  version: number;
+}
+
+// v0: the keys the booking pages wrote before the draft store existed
+interface LegacyDraft extends VersionedDraft {
+  version: 0;
+  bookingData?: {
+    id?: string;
+    areas?: string[];
+    priceInput?: CleaningPriceInput;
+    bookingDate?: string;
+    bookingTime?: string;
+    location?: string;
+    confirmed?: boolean;
+    paymentStatus?: string;
+    paymentReference?: string;
+  };
+  cleaningItems?: {
+    items?: { [room: string]: number };
+    selectedOptions?: {
+      category?: string;
+      package?: string;
+      homeSize?: string;
+      frequency?: string;
+      preferredTime?: string;
+      specialInstructions?: string;
+    };
+    customerInfo?: CleaningCustomerInfo;
+  };
+  // Stored as the option's title, not its id
+  laundryOption?: string;
+  moveOutRooms?: { [room: string]: number };
+  gardeningServices?: {
+    services: string[];
+    gardenSize: string;
+    frequency: string;
+  };
+  repairRequest?: {
+    repairType: string;
+    urgency: string;
+    description?: string;
+    photosCount?: number;
+  };
+}
+
+const isLegacyDraft = (draft: VersionedDraft): draft is LegacyDraft =>
+  draft.version === 0;
+
+const isVersionedDraft = (value: unknown): value is VersionedDraft =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as VersionedDraft).version === "number";
+
+const countAreas = (areas: string[] = []) =>
+  areas.reduce((items, area) => {
+    items[area] = (items[area] || 0) + 1;
+    return items;
+  }, {});
+
+// v0 is the set of legacy keys; turn whichever service was saved into a draft
+const migrateLegacyDraft = (
+  legacy: LegacyDraft
+): DistributiveOmit<BookingDraft, "idempotencyKey"> => {
+  const bookingData = legacy.bookingData || {};
+  const base = {
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    schedule: bookingData.bookingDate
+      ? {
+          bookingDate: bookingData.bookingDate,
+          bookingTime: bookingData.bookingTime,
+          location: bookingData.location,
+        }
+      : null,
+    booking: bookingData.confirmed
+      ? {
+          id: bookingData.id,
+          paymentStatus: bookingData.paymentStatus || "pending",
+          paymentReference: bookingData.paymentReference,
+        }
+      : null,
+  };
+
+  if (legacy.cleaningItems || bookingData.priceInput || bookingData.areas) {
+    const {
+      items,
+      selectedOptions = {},
+      customerInfo,
+    } = legacy.cleaningItems || {};
+    return {
+      ...base,
+      serviceType: "house-cleaning",
+      priceInput: bookingData.priceInput || {
+        serviceType: "house-cleaning",
+        items: items || countAreas(bookingData.areas),
+        category: selectedOptions.category,
+        package: selectedOptions.package,
+        homeSize: selectedOptions.homeSize,
+        frequency: selectedOptions.frequency,
+      },
+      details: {
+        preferredTime: selectedOptions.preferredTime,
+        specialInstructions: selectedOptions.specialInstructions,
+        customerInfo,
+      },
+    };
+  }
+
+  if (legacy.laundryOption) {
+    const option = Object.keys(LAUNDRY_OPTIONS).find(
+      (id) => LAUNDRY_OPTIONS[id].title === legacy.laundryOption
+    );
+    return {
+      ...base,
+      serviceType: "laundry",
+      priceInput: { serviceType: "laundry", option },
+    };
+  }
+
+  if (legacy.moveOutRooms) {
+    return {
+      ...base,
+      serviceType: "moving",
+      priceInput: { serviceType: "moving", rooms: legacy.moveOutRooms },
+    };
+  }
+
+  if (legacy.gardeningServices) {
+    const { services, gardenSize, frequency } = legacy.gardeningServices;
+    return {
+      ...base,
+      serviceType: "gardening",
+      priceInput: {
+        serviceType: "gardening",
+        services,
+        gardenSize,
+        frequency,
+      },
+    };
+  }
+
+  if (legacy.repairRequest) {
+    const { repairType, urgency, description, photosCount } =
+      legacy.repairRequest;
+    return {
+      ...base,
+      serviceType: "repairs",
+      priceInput: { serviceType: "repairs", repairType, urgency },
+      details: {
+        description: description || "",
+        photosCount: photosCount || 0,
+      },
+    };
+  }
+
+  return null;
+};
+
+export const createIdempotencyKey = () =>
+  typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Each migration upgrades a stored draft from `version` to `version + 1`
+const migrations: {
+  [version: number]: (draft: VersionedDraft) => VersionedDraft | null;
+} = {
+  0: (draft) => (isLegacyDraft(draft) ? migrateLegacyDraft(draft) : null),
+  1: (draft) => ({
+    ...draft,
+    version: 2,
+    idempotencyKey: createIdempotencyKey(),
+  }),
+};
+
+export const migrateDraft = (stored: unknown): BookingDraft | null => {
+  let draft = isVersionedDraft(stored) ? stored : null;
+
+  while (draft && draft.version < BOOKING_DRAFT_VERSION) {
+    const migrate = migrations[draft.version];
+    if (!migrate) {
+      return null;
+    }
+    draft = migrate(draft);
+  }
+
+  // Drafts written by a newer release can't be trusted by this one
+  if (!draft || draft.version !== BOOKING_DRAFT_VERSION) {
+    return null;
+  }
+
+  return draft as BookingDraft;
+};
+
+const readJson = (key: string) => {
+  const value = localStorage.getItem(key);
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    // laundryOption was stored as a plain string
+    return value;
+  }
+};
+
+// Collect the legacy keys into a version 0 draft
+const readLegacyDraft = (): LegacyDraft | null => {
+  const legacy: LegacyDraft = { version: 0 };
+  let found = false;
+
+  LEGACY_KEYS.forEach((key) => {
+    const value = readJson(key);
+    if (value) {
+      legacy[key] = value;
+      found = true;
+    }
+  });
+
+  return found ? legacy : null;
+};
+
+const removeLegacyKeys = () => {
+  LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+};
+
+// Address or phone details that shouldn't outlive the session on a
+// shared device
+const hasContactDetails = (draft: BookingDraft) => {
+  if (draft.schedule?.location) {
+    return true;
+  }
+
+  if (draft.serviceType === "house-cleaning") {
+    const { customerInfo } = draft.details || {};
+    return !!(customerInfo?.phone || customerInfo?.address);
+  }
+
+  return false;
+};
+
+export const BookingDraftStore = {
+  // Load the current draft, migrating older schemas if needed
+  load: (): BookingDraft | null => {
+    if (typeof window === "undefined") {
+      return null;
+    }
+
+    try {
+      const stored = readJson(BOOKING_DRAFT_KEY) || readLegacyDraft();
+      if (!stored) {
+        return null;
+      }
+
+      const draft = migrateDraft(stored);
+      if (!draft) {
+        BookingDraftStore.clear();
+        return null;
+      }
+
+      if (stored.version !== draft.version) {
+        BookingDraftStore.save(draft);
+        removeLegacyKeys();
+      }
+
+      return draft;
+    } catch (error) {
+      console.error("Error loading booking draft:", error);
+      return null;
+    }
+  },
+
+  // Persist a draft as-is
+  save: (draft: BookingDraft) => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(BOOKING_DRAFT_KEY, JSON.stringify(draft));
+    }
+  },
+
+  // Start a fresh draft for a service, replacing any previous one
+  start: (draft: NewBookingDraft): BookingDraft => {
+    const newDraft = {
+      ...draft,
+      version: BOOKING_DRAFT_VERSION,
+      updatedAt: new Date().toISOString(),
+      idempotencyKey: createIdempotencyKey(),
+      schedule: null,
+      booking: null,
+    } as BookingDraft;
+
+    BookingDraftStore.save(newDraft);
+    return newDraft;
+  },
+
+  // Merge fields shared by every service into the current draft
+  update: (
+    changes: Partial<Pick<DraftBase, "customerId" | "schedule" | "booking">>
+  ): BookingDraft | null => {
+    const draft = BookingDraftStore.load();
+    if (!draft) {
+      return null;
+    }
+
+    const updatedDraft = {
+      ...draft,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // A new schedule is a different booking until one has been created
+    if (changes.schedule && !draft.booking) {
+      updatedDraft.idempotencyKey = createIdempotencyKey();
+    }
+
+    BookingDraftStore.save(updatedDraft);
+    return updatedDraft;
+  },
+
+  // Remove the draft and anything left over from the legacy keys
+  clear: () => {
+    if (typeof window !== "undefined") {
+      localStorage.removeItem(BOOKING_DRAFT_KEY);
+      removeLegacyKeys();
+    }
+  },
+
+  // Remove the draft only if it holds the customer's address or phone
+  clearContactDetails: () => {
+    const draft = BookingDraftStore.load();
+    if (draft && hasContactDetails(draft)) {
+      BookingDraftStore.clear();
+    }
+  },
+};
+
+const titleCase = (id: string) =>
+  id
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const listCounts = (counts: { [key: string]: number } = {}) =>
+  Object.keys(counts)
+    .filter((key) => counts[key] > 0)
+    .map((key) => (counts[key] > 1 ? `${key} × ${counts[key]}` : key));
+
+// Human-readable description of a draft for summary and confirmation pages
+export const describeDraft = (draft: BookingDraft) => {
+  const serviceName = SERVICE_NAMES[draft.serviceType];
+
+  switch (draft.serviceType) {
+    case "house-cleaning":
+      return {
+        serviceName,
+        serviceCategory: draft.priceInput.category || "Standard Cleaning",
+        items: listCounts(draft.priceInput.items),
+      };
+    case "laundry":
+      return {
+        serviceName,
+        serviceCategory: "Laundry Service",
+        items: [LAUNDRY_OPTIONS[draft.priceInput.option]?.title].filter(
+          Boolean
+        ),
+      };
+    case "moving":
+      return {
+        serviceName,
+        serviceCategory: "Move-out/in Package",
+        items: listCounts(draft.priceInput.rooms),
+      };
+    case "gardening":
+      return {
+        serviceName,
+        serviceCategory: `${
+          GARDEN_SIZES[draft.priceInput.gardenSize]?.title || ""
+        } Garden`.trim(),
+        items: (draft.priceInput.services || []).map(titleCase),
+      };
+    case "repairs":
+      return {
+        serviceName,
+        serviceCategory:
+          REPAIR_TYPES[draft.priceInput.repairType]?.title || "Repairs",
+        items: [
+          `${REPAIR_URGENCIES[draft.priceInput.urgency]?.title} response`,
+          draft.details.description,
+        ].filter(Boolean),
+      };
+    default:
+      return { serviceName: "Service", serviceCategory: "", items: [] };
+  }
+};
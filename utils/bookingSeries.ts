@@ -0,0 +1,112 @@
+// utils/bookingSeries.ts
+// Recurring booking series for services booked on a repeating frequency
+import { BookingDraft } from "./bookingDraft";
+
+export type RecurrenceFrequency = "weekly" | "bi-weekly" | "monthly";
+
+export interface SeriesRecurrence {
+  frequency: RecurrenceFrequency;
+  // Dates (YYYY-MM-DD) of every visit created up front, first visit included
+  occurrences: string[];
+}
+
+// Cleaning and gardening name their frequencies differently
+const FREQUENCY_ALIASES: { [key: string]: RecurrenceFrequency } = {
+  weekly: "weekly",
+  "bi-weekly": "bi-weekly",
+  biweekly: "bi-weekly",
+  monthly: "monthly",
+};
+
+export const RECURRENCE_LABELS: { [key in RecurrenceFrequency]: string } = {
+  weekly: "Every week",
+  "bi-weekly": "Every 2 weeks",
+  monthly: "Every month",
+};
+
+// Visits created when the series is booked (about three months ahead)
+export const SERIES_OCCURRENCES: { [key in RecurrenceFrequency]: number } = {
+  weekly: 12,
+  "bi-weekly": 6,
+  monthly: 3,
+};
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Date keys are local days; parsing them bare would shift them to UTC
+export const formatOccurrenceDate = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+// Recurring frequency of a draft, or null for one-time bookings
+export const getDraftFrequency = (
+  draft: BookingDraft
+): RecurrenceFrequency | null => {
+  if (
+    draft.serviceType !== "house-cleaning" &&
+    draft.serviceType !== "gardening"
+  ) {
+    return null;
+  }
+
+  return FREQUENCY_ALIASES[draft.priceInput.frequency] || null;
+};
+
+const addOccurrence = (
+  start: Date,
+  frequency: RecurrenceFrequency,
+  index: number
+) => {
+  if (frequency === "monthly") {
+    // Keep the same day of month, falling back to the last day when shorter
+    const target = new Date(start.getFullYear(), start.getMonth() + index, 1);
+    const lastDay = new Date(
+      target.getFullYear(),
+      target.getMonth() + 1,
+      0
+    ).getDate();
+    target.setDate(Math.min(start.getDate(), lastDay));
+    return target;
+  }
+
+  const days = frequency === "weekly" ? 7 : 14;
+  return new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + index * days
+  );
+};
+
+export const generateOccurrences = (
+  startDate: string | Date,
+  frequency: RecurrenceFrequency,
+  count = SERIES_OCCURRENCES[frequency]
+): string[] => {
+  const start = new Date(startDate);
+
+  return Array.from({ length: count }, (_, index) =>
+    toDateKey(addOccurrence(start, frequency, index))
+  );
+};
+
+// Recurrence sent with the booking so the backend creates the whole series
+export const buildSeriesRecurrence = (
+  draft: BookingDraft
+): SeriesRecurrence | null => {
+  const frequency = getDraftFrequency(draft);
+  if (!frequency || !draft.schedule) {
+    return null;
+  }
+
+  return {
+    frequency,
+    occurrences: generateOccurrences(draft.schedule.bookingDate, frequency),
+  };
+};
@@ -1,8 +1,12 @@
 // utils/httpClient.js
 import axios from "axios";
-import { TokenService, isAuthenticated, getCurrentUser } from "./tokenService";
+import api from "../services/api";
+import { isAuthenticated, getCurrentUser, endSession } from "./tokenService";
+import { buildSignInUrl, getCurrentPath } from "./authRedirect";
 
-const BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002";
+// Calls go to our API proxy (app/api/proxy), which adds the token from the
+// httpOnly session cookie and forwards them to NEXT_PUBLIC_API_URL
+const BASE_URL = "/api/proxy";
 
 // Create a custom axios instance
 const httpClient = axios.create({
@@ -13,12 +17,37 @@ const httpClient = axios.create({
   timeout: 30000, // 30 second timeout
 });
 
-// Request interceptor for adding the auth token
+// Sign-in, refresh and logout answer 401 themselves; never retry those
+const isSessionRoute = (config) => config.url?.startsWith("/api/auth/");
+
+// The refresh currently in flight; other requests wait on it
+let refreshPromise = null;
+
+// Renew the access cookie from the refresh cookie, once for all callers
+const refreshSession = () => {
+  if (!refreshPromise) {
+    refreshPromise = api.auth.refreshSession().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+// Last resort once the session can't be renewed; come back here after sign-in
+const redirectToSignIn = async () => {
+  await endSession();
+
+  if (typeof window !== "undefined") {
+    window.location.href = buildSignInUrl(getCurrentPath());
+  }
+};
+
+// Request interceptor that holds requests while the session is refreshed
 httpClient.interceptors.request.use(
-  (config) => {
-    const token = TokenService.getToken();
-    if (token) {
-      config.headers["Authorization"] = `Bearer ${token}`;
+  async (config) => {
+    if (refreshPromise && !isSessionRoute(config)) {
+      await refreshPromise.catch(() => null);
     }
     return config;
   },
@@ -39,20 +68,23 @@ httpClient.interceptors.response.use(
     if (
       error.response &&
       error.response.status === 401 &&
-      !originalRequest._retry
+      originalRequest &&
+      !isSessionRoute(originalRequest) &&
+      !originalRequest._retry &&
+      // Anonymous calls have no session to renew; they just reject
+      isAuthenticated()
     ) {
       originalRequest._retry = true;
 
-      // Here you could implement token refresh logic if needed
-      // For now, we'll just log the user out on token expiration
-      TokenService.removeToken();
-      TokenService.removeUserData();
-
-      // Redirect to login page if we're in the browser context
-      if (typeof window !== "undefined") {
-        window.location.href = "/auth/signin";
+      // Renew the session and replay the request
+      try {
+        await refreshSession();
+        return httpClient(originalRequest);
+      } catch (refreshError) {
+        console.error("Error refreshing session:", refreshError);
       }
 
+      await redirectToSignIn();
       return Promise.reject(error);
     }
 
@@ -63,8 +95,14 @@ httpClient.interceptors.response.use(
 
 // Helper to standardize error handling
 const handleApiError = (error) => {
+  // Already standardized by an earlier call (e.g. the API SDK)
+  if (error?.isApiError) {
+    return error;
+  }
+
   // Create a standardized error object
   const apiError = {
+    isApiError: true,
     status: error.response?.status || 500,
     message: "Something went wrong",
     data: null,
@@ -0,0 +1,50 @@
+// utils/idleTimeout.ts
+// Idle sign-out settings and the activity clock shared by every open tab
+
+// Minutes without activity before the user is signed out
+export const IDLE_TIMEOUT_MS =
+  (Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES) || 15) * 60 * 1000;
+
+// How long the warning counts down before that happens
+export const IDLE_WARNING_MS =
+  (Number(process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS) || 60) * 1000;
+
+export const ACTIVITY_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "keydown",
+  "scroll",
+  "touchstart",
+];
+
+const LAST_ACTIVITY_KEY = "last_activity";
+
+// Activity is written at most this often; the clock doesn't need more
+const WRITE_INTERVAL_MS = 5000;
+
+let lastWritten = 0;
+
+// Stored so activity in one tab keeps the others signed in too
+export const recordActivity = (force = false) => {
+  const now = Date.now();
+  if (
+    typeof window === "undefined" ||
+    (!force && now - lastWritten < WRITE_INTERVAL_MS)
+  ) {
+    return;
+  }
+
+  lastWritten = now;
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+};
+
+export const getIdleTime = () => {
+  const lastActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  if (!lastActivity) {
+    // Sessions from before the clock existed start counting now
+    recordActivity(true);
+    return 0;
+  }
+
+  return Date.now() - lastActivity;
+};
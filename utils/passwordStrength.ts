@@ -0,0 +1,64 @@
+// utils/passwordStrength.ts
+// Scores new passwords for the strength meter and rejects weak ones
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Scores below this are rejected
+export const MIN_PASSWORD_SCORE = 2;
+
+export const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+export interface PasswordStrength {
+  // 0 (very weak) to 4 (strong)
+  score: number;
+  label: string;
+  // Why the password can't be used, or null when it can
+  problem: string | null;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/];
+
+// Parts of the user's own details that make a password guessable
+const getPersonalWords = (user) =>
+  [user?.email?.split("@")[0], user?.firstName, user?.lastName, user?.username]
+    .filter((word) => word && word.length >= 3)
+    .map((word) => word.toLowerCase());
+
+export const getPasswordStrength = (
+  password: string,
+  user = null
+): PasswordStrength => {
+  const lowered = password.toLowerCase();
+  const classes = CHARACTER_CLASSES.filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  let score = 0;
+  if (password.length >= MIN_PASSWORD_LENGTH) score += 1;
+  if (password.length >= 12) score += 1;
+  if (classes >= 3) score += 1;
+  if (classes === 4 || password.length >= 16) score += 1;
+
+  let problem = null;
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problem = `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+  } else if (
+    COMMON_PASSWORDS.has(lowered) ||
+    // "Password1!" is no better than "password"
+    COMMON_PASSWORDS.has(lowered.replace(/[\d\W_]+$/, ""))
+  ) {
+    problem = "This password is too common. Please choose another.";
+    score = 0;
+  } else if (getPersonalWords(user).some((word) => lowered.includes(word))) {
+    problem = "Don't use your name or email in your password.";
+    score = Math.min(score, 1);
+  } else if (/^(.)\1+$/.test(password)) {
+    problem = "Don't repeat a single character.";
+    score = 0;
+  } else if (score < MIN_PASSWORD_SCORE) {
+    problem = "Make it longer, or mix letters, numbers and symbols.";
+  }
+
+  return { score, label: STRENGTH_LABELS[score], problem };
+};
@@ -0,0 +1,193 @@
+// utils/paymentWebhooks.ts
+// Server-only helpers for signed payment webhooks (used by app/api/payments)
+import crypto from "crypto";
+import { PaymentStatus } from "./payments";
+import { paymentStatusSchema, validateResponse } from "../services/apiSchemas";
+import { API_URL } from "./session";
+
+export interface PaymentEvent {
+  // Unique per delivery source, used as the idempotency key
+  id: string;
+  provider: string;
+  reference: string;
+  status: PaymentStatus;
+  amount?: number;
+}
+
+// The mock gateway is for local checkout only: never in production, and only
+// when it is the configured provider and has its own secret
+export const isMockGatewayEnabled = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.NEXT_PUBLIC_PAYMENT_PROVIDER === "mock" &&
+  !!process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+
+export const SIGNATURE_HEADERS: { [provider: string]: string } = {
+  paystack: "x-paystack-signature",
+  ...(isMockGatewayEnabled() ? { mock: "x-mock-signature" } : {}),
+};
+
+// Without a secret no signature can match, so the delivery is rejected
+const getWebhookSecret = (provider: string) => {
+  switch (provider) {
+    case "paystack":
+      return process.env.PAYSTACK_SECRET_KEY;
+    case "mock":
+      return isMockGatewayEnabled()
+        ? process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// Paystack signs the raw body with HMAC-SHA512; the mock provider does the same
+export const signPayload = (provider: string, rawBody: string) => {
+  const secret = getWebhookSecret(provider);
+  if (!secret) {
+    return null;
+  }
+
+  return crypto.createHmac("sha512", secret).update(rawBody).digest("hex");
+};
+
+export const verifySignature = (
+  provider: string,
+  rawBody: string,
+  signature: string | null
+) => {
+  const expected = signPayload(provider, rawBody);
+  if (!expected || !signature) {
+    return false;
+  }
+
+  // timingSafeEqual throws on buffers of different lengths, which string
+  // lengths don't rule out once multibyte characters are involved
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  if (signatureBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+};
+
+const PAYSTACK_EVENTS: { [event: string]: PaymentStatus } = {
+  "charge.success": "paid",
+  "charge.failed": "failed",
+  "refund.processed": "refunded",
+};
+
+// Normalize a provider payload, or null for events we don't act on
+export const parsePaymentEvent = (
+  provider: string,
+  payload
+): PaymentEvent | null => {
+  if (provider === "paystack") {
+    const status = PAYSTACK_EVENTS[payload?.event];
+    const reference =
+      payload?.data?.reference || payload?.data?.transaction_reference;
+    if (!status || !reference) {
+      return null;
+    }
+
+    return {
+      id: `${payload.event}:${payload.data.id || reference}`,
+      provider,
+      reference,
+      status,
+      // Paystack amounts are in kobo
+      amount: payload.data.amount ? payload.data.amount / 100 : undefined,
+    };
+  }
+
+  if (provider === "mock") {
+    if (!payload?.id || !payload?.reference || !payload?.status) {
+      return null;
+    }
+
+    return {
+      id: payload.id,
+      provider,
+      reference: payload.reference,
+      status: payload.status,
+      amount: payload.amount,
+    };
+  }
+
+  return null;
+};
+
+// Allowed moves between payment states; anything else is a replay or stale
+const STATUS_TRANSITIONS: { [status: string]: PaymentStatus[] } = {
+  pending: ["paid", "failed"],
+  failed: ["paid"],
+  paid: ["refunded"],
+  refunded: [],
+};
+
+export const canTransition = (from: string, to: PaymentStatus) =>
+  (STATUS_TRANSITIONS[from || "pending"] || []).includes(to);
+
+const backendHeaders = (idempotencyKey?: string) => ({
+  "Content-Type": "application/json",
+  "x-api-key": process.env.PAYMENTS_API_KEY || "",
+  ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+});
+
+const fetchPaymentStatus = async (reference: string) => {
+  const response = await fetch(
+    `${API_URL}/api/v1/payments/${encodeURIComponent(reference)}`,
+    { headers: backendHeaders(), cache: "no-store" }
+  );
+  if (!response.ok) {
+    throw new Error(`Payment lookup failed: ${response.status}`);
+  }
+
+  const result = await response.json();
+  const fieldErrors = validateResponse(result, paymentStatusSchema);
+  if (fieldErrors.length > 0) {
+    console.error("Unexpected payment lookup response:", fieldErrors);
+    throw new Error("Payment lookup returned an invalid response");
+  }
+
+  return result.data.status;
+};
+
+// Deliveries already applied by this server instance
+const processedEvents = new Set<string>();
+
+// Apply an event once; repeats and out-of-order events leave state untouched
+export const applyPaymentEvent = async (event: PaymentEvent) => {
+  if (processedEvents.has(event.id)) {
+    return { applied: false, reason: "duplicate" };
+  }
+
+  const currentStatus = await fetchPaymentStatus(event.reference);
+  if (
+    currentStatus === event.status ||
+    !canTransition(currentStatus, event.status)
+  ) {
+    processedEvents.add(event.id);
+    return { applied: false, reason: "no-op", status: currentStatus };
+  }
+
+  const response = await fetch(
+    `${API_URL}/api/v1/payments/${encodeURIComponent(event.reference)}`,
+    {
+      method: "PATCH",
+      headers: backendHeaders(event.id),
+      body: JSON.stringify({
+        status: event.status,
+        amount: event.amount,
+        provider: event.provider,
+        eventId: event.id,
+      }),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Payment update failed: ${response.status}`);
+  }
+
+  processedEvents.add(event.id);
+  return { applied: true, status: event.status };
+};
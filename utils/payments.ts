@@ -0,0 +1,216 @@
+// utils/payments.ts
+// Payment providers used by checkout; pick one with NEXT_PUBLIC_PAYMENT_PROVIDER
+import api from "../services/api";
+
+export type PaymentStatus = "paid" | "pending" | "failed" | "refunded";
+
+export interface PaymentRequest {
+  bookingId: string;
+  amount: number;
+  // Where the provider sends the customer back with ?reference=
+  callbackUrl: string;
+  // From verifying the transaction PIN; the API won't start a payment without
+  pinToken: string;
+}
+
+export interface PaymentSession {
+  provider: string;
+  reference: string;
+  redirectUrl: string;
+}
+
+export interface PaymentResult {
+  reference: string;
+  status: PaymentStatus;
+  amount?: number;
+}
+
+export interface PaymentProvider {
+  name: string;
+  initialize: (request: PaymentRequest) => Promise<PaymentSession>;
+  redirect: (session: PaymentSession) => void;
+  verify: (reference: string) => Promise<PaymentResult>;
+  refund: (reference: string, amount?: number) => Promise<PaymentResult>;
+}
+
+const redirectTo = (session: PaymentSession) => {
+  if (typeof window !== "undefined") {
+    window.location.href = session.redirectUrl;
+  }
+};
+
+// Paystack checkout, initialized and verified through our backend
+export const paystackProvider: PaymentProvider = {
+  name: "paystack",
+
+  initialize: async ({ bookingId, amount, callbackUrl, pinToken }) => {
+    const response = await api.payments.initialize({
+      provider: "paystack",
+      bookingId,
+      amount,
+      callbackUrl,
+      pinToken,
+    });
+    const { authorization_url, reference } = response.data;
+    if (!authorization_url) {
+      throw new Error("Paystack did not return a checkout page");
+    }
+
+    return {
+      provider: "paystack",
+      reference,
+      redirectUrl: authorization_url,
+    };
+  },
+
+  redirect: redirectTo,
+
+  verify: async (reference) => {
+    const response = await api.payments.verify(reference);
+
+    return {
+      reference,
+      status: response.success ? "paid" : "failed",
+      amount: response.data?.amount,
+    };
+  },
+
+  refund: async (reference, amount) => {
+    const response = await api.payments.refund(reference, amount);
+
+    return {
+      reference,
+      status: response.data?.status === "processed" ? "refunded" : "pending",
+      amount: response.data?.amount ?? amount,
+    };
+  },
+};
+
+// The API records mock payments like real ones, so webhooks and status
+// lookups work; localStorage only keeps what the mock checkout page shows
+const MOCK_PAYMENTS_KEY = "mock_payments";
+
+const readMockPayments = () => {
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_PAYMENTS_KEY) || "{}");
+  } catch (error) {
+    return {};
+  }
+};
+
+const writeMockPayment = (reference: string, payment) => {
+  const payments = readMockPayments();
+  payments[reference] = { ...payments[reference], ...payment };
+  localStorage.setItem(MOCK_PAYMENTS_KEY, JSON.stringify(payments));
+  return payments[reference];
+};
+
+export const getMockPayment = (reference: string) =>
+  readMockPayments()[reference] || null;
+
+// Called by the mock checkout page when the developer approves or declines
+export const completeMockPayment = (reference: string, approved: boolean) =>
+  writeMockPayment(reference, { status: approved ? "paid" : "failed" });
+
+export const mockProvider: PaymentProvider = {
+  name: "mock",
+
+  initialize: async ({ bookingId, amount, callbackUrl, pinToken }) => {
+    const response = await api.payments.initialize({
+      provider: "mock",
+      bookingId,
+      amount,
+      callbackUrl,
+      pinToken,
+    });
+    const { reference } = response.data;
+    writeMockPayment(reference, {
+      bookingId,
+      amount,
+      callbackUrl,
+      status: "pending",
+    });
+
+    return {
+      provider: "mock",
+      reference,
+      redirectUrl: `/mock-checkout?reference=${encodeURIComponent(reference)}`,
+    };
+  },
+
+  redirect: redirectTo,
+
+  // The API's record is the source of truth, not the local copy
+  verify: async (reference) => {
+    const response = await api.payments.getStatus(reference);
+    writeMockPayment(reference, { status: response.data.status });
+
+    return {
+      reference,
+      status: response.data.status,
+      amount: response.data.amount,
+    };
+  },
+
+  refund: async (reference, amount) => {
+    const { data: payment } = await api.payments.getStatus(reference);
+    if (payment.status !== "paid") {
+      return { reference, status: payment.status, amount };
+    }
+
+    const response = await api.payments.refund(reference, amount);
+    const status: PaymentStatus =
+      response.data?.status === "processed" ? "refunded" : "pending";
+    writeMockPayment(reference, { status });
+
+    return {
+      reference,
+      status,
+      amount: response.data?.amount ?? amount ?? payment.amount,
+    };
+  },
+};
+
+// Production builds never offer the mock gateway
+const PAYMENT_PROVIDERS: { [name: string]: PaymentProvider } = {
+  [paystackProvider.name]: paystackProvider,
+  ...(process.env.NODE_ENV !== "production"
+    ? { [mockProvider.name]: mockProvider }
+    : {}),
+};
+
+export const DEFAULT_PAYMENT_PROVIDER =
+  process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || "paystack";
+
+// Look up a provider by name, e.g. the one a booking was paid with
+export const getPaymentProvider = (
+  name: string = DEFAULT_PAYMENT_PROVIDER
+): PaymentProvider =>
+  PAYMENT_PROVIDERS[name] ||
+  PAYMENT_PROVIDERS[DEFAULT_PAYMENT_PROVIDER] ||
+  paystackProvider;
+
+// Start a payment attempt for a booking that already exists, e.g. a retry
+export const startBookingPayment = async ({
+  bookingId,
+  amount,
+  provider: providerName = DEFAULT_PAYMENT_PROVIDER,
+  returnPath = "/booking-confirmation",
+  pinToken,
+}: {
+  bookingId: string;
+  amount: number;
+  provider?: string;
+  returnPath?: string;
+  pinToken: string;
+}) => {
+  const provider = getPaymentProvider(providerName);
+  const session = await provider.initialize({
+    bookingId,
+    amount,
+    callbackUrl: `${window.location.origin}${returnPath}`,
+    pinToken,
+  });
+
+  return { provider, session };
+};
@@ -0,0 +1,19 @@
+// utils/phone.ts
+// Phone number helpers shared by the profile pages and app/api/phone
+
+// Length of the code sent by SMS
+export const PHONE_CODE_LENGTH = 6;
+
+// E.164 (+2348012345678), or null when it can't be a phone number.
+// react-phone-input-2 gives digits with the country code but no "+".
+export const normalizePhone = (value?: string) => {
+  const digits = (value || "").replace(/\D/g, "");
+  return digits.length >= 10 && digits.length <= 15 ? `+${digits}` : null;
+};
+
+export const isSamePhone = (a?: string, b?: string) =>
+  !!normalizePhone(a) && normalizePhone(a) === normalizePhone(b);
+
+// The number on the profile, if it has been verified by SMS
+export const getVerifiedPhone = (user) =>
+  user?.mobileVerified ? normalizePhone(user.mobile) : null;
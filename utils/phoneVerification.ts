@@ -0,0 +1,166 @@
+// utils/phoneVerification.ts
+// Server-only SMS codes for phone verification (used by app/api/phone)
+import crypto from "crypto";
+import { PHONE_CODE_LENGTH } from "./phone";
+
+// Identifies the browser's pending code; the code itself stays here
+export const PHONE_CHALLENGE_COOKIE = "phone_challenge";
+
+export const PHONE_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Wait between codes, and codes allowed per number per hour
+export const PHONE_RESEND_COOLDOWN_MS = 60 * 1000;
+export const MAX_CODES_PER_PHONE = 5;
+const SEND_WINDOW_MS = 60 * 60 * 1000;
+
+// Codes one account or IP address may request per hour, across all numbers
+export const MAX_CODES_PER_SENDER = 10;
+
+// Wrong entries allowed before a new code is needed
+export const MAX_PHONE_CODE_ATTEMPTS = 5;
+
+interface PhoneChallenge {
+  phone: string;
+  // Only the account that asked for the code may use it
+  userId: string;
+  codeHash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Held by this server instance, like processedEvents in paymentWebhooks; a
+// restart means asking for a new code
+const challenges = new Map<string, PhoneChallenge>();
+// Send times per "phone:<number>" and per sender ("user:<id>", "ip:<address>")
+const sendLog = new Map<string, number[]>();
+
+const hashCode = (code: string) =>
+  crypto.createHash("sha256").update(code).digest("hex");
+
+const pruneExpired = (now: number) => {
+  challenges.forEach((challenge, id) => {
+    if (challenge.expiresAt <= now) {
+      challenges.delete(id);
+    }
+  });
+};
+
+const recentSends = (key: string, now: number) =>
+  (sendLog.get(key) || []).filter((time) => now - time < SEND_WINDOW_MS);
+
+const getKeyRetryAfter = (
+  key: string,
+  maxSends: number,
+  cooldown: number,
+  now: number
+) => {
+  const sends = recentSends(key, now);
+  if (sends.length === 0) {
+    return 0;
+  }
+
+  const cooldownEnds = sends[sends.length - 1] + cooldown;
+  const windowEnds =
+    sends.length >= maxSends
+      ? sends[sends.length - maxSends] + SEND_WINDOW_MS
+      : 0;
+  return Math.max(0, cooldownEnds - now, windowEnds - now);
+};
+
+// Milliseconds until this number may be sent another code by these senders,
+// or 0
+export const getPhoneRetryAfter = (
+  phone: string,
+  senders: string[],
+  now = Date.now()
+) =>
+  Math.max(
+    getKeyRetryAfter(
+      `phone:${phone}`,
+      MAX_CODES_PER_PHONE,
+      PHONE_RESEND_COOLDOWN_MS,
+      now
+    ),
+    ...senders.map((sender) =>
+      getKeyRetryAfter(sender, MAX_CODES_PER_SENDER, 0, now)
+    )
+  );
+
+// Start a challenge for a number, replacing the browser's previous one
+export const createPhoneChallenge = (
+  phone: string,
+  userId: string,
+  senders: string[],
+  previousId?: string
+) => {
+  const now = Date.now();
+  pruneExpired(now);
+  if (previousId) {
+    challenges.delete(previousId);
+  }
+
+  const code = crypto
+    .randomInt(0, 10 ** PHONE_CODE_LENGTH)
+    .toString()
+    .padStart(PHONE_CODE_LENGTH, "0");
+  const id = crypto.randomUUID();
+  const expiresAt = now + PHONE_CODE_TTL_MS;
+  challenges.set(id, {
+    phone,
+    userId,
+    codeHash: hashCode(code),
+    expiresAt,
+    attempts: 0,
+  });
+
+  [`phone:${phone}`, ...senders].forEach((key) => {
+    sendLog.set(key, [...recentSends(key, now), now]);
+  });
+
+  return { id, code, expiresAt };
+};
+
+export type PhoneCheckResult =
+  | { ok: true; phone: string }
+  | {
+      ok: false;
+      reason: "missing" | "expired" | "locked" | "invalid";
+      attemptsLeft?: number;
+    };
+
+// Check a code; a correct one is consumed by clearPhoneChallenge once the
+// API has recorded the number
+export const checkPhoneCode = (
+  id: string,
+  userId: string,
+  code: string
+): PhoneCheckResult => {
+  const challenge = id ? challenges.get(id) : undefined;
+  // A code sent to another account counts as no code at all
+  if (!challenge || challenge.userId !== userId) {
+    return { ok: false, reason: "missing" };
+  }
+  if (challenge.expiresAt <= Date.now()) {
+    challenges.delete(id);
+    return { ok: false, reason: "expired" };
+  }
+  if (challenge.attempts >= MAX_PHONE_CODE_ATTEMPTS) {
+    return { ok: false, reason: "locked" };
+  }
+
+  const expected = Buffer.from(challenge.codeHash);
+  const actual = Buffer.from(hashCode(code || ""));
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    challenge.attempts += 1;
+    const attemptsLeft = MAX_PHONE_CODE_ATTEMPTS - challenge.attempts;
+    return attemptsLeft > 0
+      ? { ok: false, reason: "invalid", attemptsLeft }
+      : { ok: false, reason: "locked" };
+  }
+
+  return { ok: true, phone: challenge.phone };
+};
+
+export const clearPhoneChallenge = (id: string) => {
+  challenges.delete(id);
+};
@@ -0,0 +1,341 @@
+// utils/pricing.ts
+// Client-side price engine for every bookable service (matches backend logic)
+
+export type ServiceType =
+  "house-cleaning" | "laundry" | "moving" | "gardening" | "repairs";
+
+export interface CleaningPriceInput {
+  serviceType: "house-cleaning";
+  items: { [room: string]: number };
+  category?: string;
+  package?: string;
+  homeSize?: string;
+  frequency?: string;
+}
+
+export interface LaundryPriceInput {
+  serviceType: "laundry";
+  option: string;
+}
+
+export interface MovingPriceInput {
+  serviceType: "moving";
+  rooms: { [room: string]: number };
+}
+
+export interface GardeningPriceInput {
+  serviceType: "gardening";
+  services: string[];
+  gardenSize: string;
+  frequency: string;
+}
+
+export interface RepairsPriceInput {
+  serviceType: "repairs";
+  repairType: string;
+  urgency: string;
+}
+
+export type PriceInput =
+  | CleaningPriceInput
+  | LaundryPriceInput
+  | MovingPriceInput
+  | GardeningPriceInput
+  | RepairsPriceInput;
+
+export interface PriceLineItem {
+  label: string;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  serviceType: ServiceType;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  finalPrice: number;
+}
+
+// Pricing constants (matches backend)
+export const CLEANING_CATEGORIES = {
+  "Standard Cleaning": { basePrice: 8000, pricePerRoom: 1200 },
+  "Deep Cleaning": { basePrice: 15000, pricePerRoom: 2000 },
+  "Move-in Cleaning": { basePrice: 20000, pricePerRoom: 2500 },
+  "Move-out Cleaning": { basePrice: 22000, pricePerRoom: 2800 },
+};
+
+export const CLEANING_PACKAGES = {
+  "Basic Package": { multiplier: 0.8 },
+  "Standard Package": { multiplier: 1 },
+  "Premium Package": { multiplier: 1.4 },
+  "Luxury Package": { multiplier: 1.8 },
+};
+
+export const CLEANING_HOME_SIZES = {
+  studio: { multiplier: 0.7 },
+  small: { multiplier: 1 },
+  medium: { multiplier: 1.5 },
+  large: { multiplier: 2.2 },
+};
+
+export const CLEANING_FREQUENCIES = {
+  "one-time": { discount: 0 },
+  monthly: { discount: 0.05 },
+  "bi-weekly": { discount: 0.1 },
+  weekly: { discount: 0.15 },
+};
+
+export const LAUNDRY_OPTIONS = {
+  "washed-folded": { title: "Washed and Folded", price: 4000 },
+  "washed-ironed": { title: "Washed and Ironed", price: 6000 },
+  "washed-ironed-folded": { title: "Washed, Ironed, and Folded", price: 7500 },
+};
+
+export const MOVING_BASE_PRICE = 15000;
+
+export const MOVING_ROOM_RATES = {
+  "Living Room": 6000,
+  Terrace: 3000,
+  Bedroom: 5000,
+  Bathroom: 3500,
+  Kitchen: 6500,
+  "Dining Room": 4500,
+  Garage: 5500,
+};
+
+export const GARDEN_SIZES = {
+  small: { title: "Small", price: 5000 },
+  medium: { title: "Medium", price: 8500 },
+  large: { title: "Large", price: 12000 },
+  xlarge: { title: "X-Large", price: 18000 },
+};
+
+// Flat discount per visit
+export const GARDEN_FREQUENCIES = {
+  "one-time": { title: "One-time Service", discount: 0 },
+  biweekly: { title: "Bi-weekly", discount: 500 },
+  weekly: { title: "Weekly", discount: 1000 },
+  monthly: { title: "Monthly", discount: 250 },
+};
+
+export const REPAIR_TYPES = {
+  plumbing: { title: "Plumbing", basePrice: 7000 },
+  electrical: { title: "Electrical", basePrice: 7500 },
+  appliance: { title: "Appliance Repair", basePrice: 8000 },
+  carpentry: { title: "Carpentry", basePrice: 6500 },
+  painting: { title: "Painting", basePrice: 10000 },
+  general: { title: "General Handyman", basePrice: 5000 },
+};
+
+export const REPAIR_URGENCIES = {
+  standard: { title: "Standard", surcharge: 0 },
+  priority: { title: "Priority", surcharge: 2000 },
+  emergency: { title: "Emergency", surcharge: 5000 },
+};
+
+export const emptyBreakdown = (serviceType: ServiceType): PriceBreakdown => ({
+  serviceType,
+  lineItems: [],
+  subtotal: 0,
+  discount: 0,
+  finalPrice: 0,
+});
+
+// Build the final breakdown from priced line items and a discount amount
+const buildBreakdown = (
+  serviceType: ServiceType,
+  lineItems: PriceLineItem[],
+  discount = 0,
+  discountLabel = "Discount"
+): PriceBreakdown => {
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const roundedDiscount = Math.round(Math.min(discount, subtotal));
+  const items = roundedDiscount
+    ? [...lineItems, { label: discountLabel, amount: -roundedDiscount }]
+    : lineItems;
+
+  return {
+    serviceType,
+    lineItems: items,
+    subtotal,
+    discount: roundedDiscount,
+    finalPrice: subtotal - roundedDiscount,
+  };
+};
+
+const countItems = (items: { [key: string]: number } = {}) =>
+  Object.values(items).reduce((sum, count) => sum + Number(count || 0), 0);
+
+export const calculateCleaningPrice = (
+  input: CleaningPriceInput
+): PriceBreakdown => {
+  const {
+    items,
+    category = "Standard Cleaning",
+    package: packageName = "Standard Package",
+    homeSize = "small",
+    frequency = "one-time",
+  } = input;
+
+  const categoryData = CLEANING_CATEGORIES[category];
+  const packageData = CLEANING_PACKAGES[packageName];
+  const sizeData = CLEANING_HOME_SIZES[homeSize];
+  const frequencyData = CLEANING_FREQUENCIES[frequency];
+  const totalItems = countItems(items);
+
+  if (
+    !categoryData ||
+    !packageData ||
+    !sizeData ||
+    !frequencyData ||
+    totalItems === 0
+  ) {
+    return emptyBreakdown("house-cleaning");
+  }
+
+  // Package and home size scale both the base fee and the room fees
+  const multiplier = packageData.multiplier * sizeData.multiplier;
+  const baseTotal =
+    (categoryData.basePrice + totalItems * categoryData.pricePerRoom) *
+    multiplier;
+  const baseFee = Math.round(categoryData.basePrice * multiplier);
+  const roomFees = Math.round(baseTotal) - baseFee;
+
+  // Round the discounted total once so it stays identical to the backend
+  const finalPrice = Math.round(baseTotal * (1 - frequencyData.discount));
+
+  return buildBreakdown(
+    "house-cleaning",
+    [
+      { label: `${category} base fee`, amount: baseFee },
+      {
+        label: `${totalItems} ${totalItems === 1 ? "area" : "areas"}`,
+        amount: roomFees,
+      },
+    ],
+    baseFee + roomFees - finalPrice,
+    "Frequency discount"
+  );
+};
+
+export const calculateLaundryPrice = (
+  input: LaundryPriceInput
+): PriceBreakdown => {
+  const option = LAUNDRY_OPTIONS[input.option];
+  if (!option) {
+    return emptyBreakdown("laundry");
+  }
+
+  return buildBreakdown("laundry", [
+    { label: option.title, amount: option.price },
+  ]);
+};
+
+export const calculateMovingPrice = (
+  input: MovingPriceInput
+): PriceBreakdown => {
+  const rooms = Object.keys(input.rooms || {}).filter(
+    (room) => input.rooms[room] > 0 && MOVING_ROOM_RATES[room]
+  );
+  if (rooms.length === 0) {
+    return emptyBreakdown("moving");
+  }
+
+  return buildBreakdown("moving", [
+    { label: "Move-out/in base fee", amount: MOVING_BASE_PRICE },
+    ...rooms.map((room) => ({
+      label: `${room} × ${input.rooms[room]}`,
+      amount: MOVING_ROOM_RATES[room] * input.rooms[room],
+    })),
+  ]);
+};
+
+export const calculateGardeningPrice = (
+  input: GardeningPriceInput
+): PriceBreakdown => {
+  const size = GARDEN_SIZES[input.gardenSize];
+  const frequency = GARDEN_FREQUENCIES[input.frequency];
+  if (!size || !frequency || !input.services?.length) {
+    return emptyBreakdown("gardening");
+  }
+
+  return buildBreakdown(
+    "gardening",
+    [{ label: `${size.title} garden visit`, amount: size.price }],
+    frequency.discount,
+    `${frequency.title} discount`
+  );
+};
+
+export const calculateRepairsPrice = (
+  input: RepairsPriceInput
+): PriceBreakdown => {
+  const repairType = REPAIR_TYPES[input.repairType];
+  const urgency = REPAIR_URGENCIES[input.urgency];
+  if (!repairType || !urgency) {
+    return emptyBreakdown("repairs");
+  }
+
+  const lineItems = [
+    { label: `${repairType.title} call-out`, amount: repairType.basePrice },
+  ];
+  if (urgency.surcharge > 0) {
+    lineItems.push({
+      label: `${urgency.title} response`,
+      amount: urgency.surcharge,
+    });
+  }
+
+  return buildBreakdown("repairs", lineItems);
+};
+
+// Single entry point used by booking pages, summary and confirmation
+export const calculateServicePrice = (input: PriceInput): PriceBreakdown => {
+  switch (input?.serviceType) {
+    case "house-cleaning":
+      return calculateCleaningPrice(input);
+    case "laundry":
+      return calculateLaundryPrice(input);
+    case "moving":
+      return calculateMovingPrice(input);
+    case "gardening":
+      return calculateGardeningPrice(input);
+    case "repairs":
+      return calculateRepairsPrice(input);
+    default:
+      return null;
+  }
+};
+
+export interface ServerQuote extends PriceBreakdown {
+  quoteId: string;
+  expiresAt?: string;
+}
+
+// The API only honours a quote until expiresAt; quotes without one don't lapse
+export const isQuoteExpired = (quote: ServerQuote, now = Date.now()) =>
+  !!quote?.expiresAt && new Date(quote.expiresAt).getTime() <= now;
+
+export interface QuoteReconciliation {
+  matches: boolean;
+  // Server total minus client total; positive means the customer pays more
+  difference: number;
+  clientTotal: number;
+  serverTotal: number;
+}
+
+// Compare the breakdown the customer saw with the server's authoritative quote
+export const reconcileQuote = (
+  client: PriceBreakdown,
+  server: ServerQuote
+): QuoteReconciliation => {
+  const clientTotal = client?.finalPrice || 0;
+  const serverTotal = server?.finalPrice || 0;
+
+  return {
+    matches: clientTotal === serverTotal,
+    difference: serverTotal - clientTotal,
+    clientTotal,
+    serverTotal,
+  };
+};
@@ -0,0 +1,36 @@
+// utils/routeAccess.ts
+// Which routes need a session, enforced by middleware.ts before render
+
+// public: anyone; guest: signed-out users only (sign-in, sign-up, recovery);
+// protected: signed-in users, optionally limited to some roles
+export type RouteAccess = "public" | "guest" | "protected";
+
+export interface RouteRule {
+  path: string;
+  access: RouteAccess;
+  roles?: string[];
+}
+
+// First match wins; a rule covers its path and everything below it.
+// Routes not listed here are protected.
+export const ROUTE_RULES: RouteRule[] = [
+  { path: "/mock-checkout", access: "public" },
+  { path: "/auth", access: "guest" },
+];
+
+// Where signed-in users land when they open a guest-only route
+export const DEFAULT_SIGNED_IN_PATH = "/";
+
+const matchesPath = (pathname: string, path: string) =>
+  path === "/"
+    ? pathname === "/"
+    : pathname === path || pathname.startsWith(`${path}/`);
+
+export const getRouteRule = (pathname: string): RouteRule =>
+  ROUTE_RULES.find((rule) => matchesPath(pathname, rule.path)) || {
+    path: pathname,
+    access: "protected",
+  };
+
+export const hasRequiredRole = (rule: RouteRule, role?: string) =>
+  !rule.roles || rule.roles.length === 0 || rule.roles.includes(role);
@@ -0,0 +1,144 @@
+// utils/session.ts
+// Server-only session cookies for the auth route handlers (app/api/auth)
+// and the API proxy (app/api/proxy). Browser code never sees the tokens.
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_LIFETIMES, SessionMode } from "./sessionLifetime";
+
+export const API_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002";
+
+export const AUTH_COOKIE = "auth_token";
+export const REFRESH_COOKIE = "refresh_token";
+// The lifetime chosen at sign-in, kept so token refresh can reapply it
+export const SESSION_MODE_COOKIE = "session_mode";
+export const SESSION_EXPIRES_COOKIE = "session_expires_at";
+// Readable by the browser so it knows a session exists and its mode; holds
+// no secret
+export const SESSION_MARKER_COOKIE = "signed_in";
+
+export interface SessionTokens {
+  token: string;
+  refreshToken?: string;
+}
+
+export interface SessionPolicy {
+  mode: SessionMode;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+export const createSessionPolicy = (mode: SessionMode): SessionPolicy => ({
+  mode,
+  expiresAt: Date.now() + SESSION_LIFETIMES[mode] * 1000,
+});
+
+// The policy set at sign-in; sessions from before it existed are short
+export const getSessionPolicy = (request: NextRequest): SessionPolicy => {
+  const mode: SessionMode =
+    request.cookies.get(SESSION_MODE_COOKIE)?.value === "remember"
+      ? "remember"
+      : "short";
+  const expiresAt =
+    Number(request.cookies.get(SESSION_EXPIRES_COOKIE)?.value) ||
+    createSessionPolicy(mode).expiresAt;
+
+  return { mode, expiresAt };
+};
+
+export const isSessionExpired = (policy: SessionPolicy) =>
+  policy.expiresAt <= Date.now();
+
+// Remembered sessions persist until they expire; short ones are browser
+// session cookies, so closing the browser ends them too. Lax rather than
+// strict so the session survives the redirect back from the payment
+// gateway; cross-site POSTs still go without the cookies.
+const cookieOptions = (policy: SessionPolicy, httpOnly = true) => ({
+  httpOnly,
+  secure: process.env.NODE_ENV !== "development",
+  sameSite: "lax" as const,
+  path: "/",
+  ...(policy.mode === "remember"
+    ? {
+        maxAge: Math.max(0, Math.floor((policy.expiresAt - Date.now()) / 1000)),
+      }
+    : {}),
+});
+
+export const setSessionCookies = (
+  response: NextResponse,
+  { token, refreshToken }: SessionTokens,
+  policy: SessionPolicy
+) => {
+  response.cookies.set(AUTH_COOKIE, token, cookieOptions(policy));
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, refreshToken, cookieOptions(policy));
+  }
+
+  response.cookies.set(SESSION_MODE_COOKIE, policy.mode, cookieOptions(policy));
+  response.cookies.set(
+    SESSION_EXPIRES_COOKIE,
+    String(policy.expiresAt),
+    cookieOptions(policy)
+  );
+  response.cookies.set(
+    SESSION_MARKER_COOKIE,
+    policy.mode,
+    cookieOptions(policy, false)
+  );
+};
+
+export const clearSessionCookies = (response: NextResponse) => {
+  [
+    AUTH_COOKIE,
+    REFRESH_COOKIE,
+    SESSION_MODE_COOKIE,
+    SESSION_EXPIRES_COOKIE,
+    SESSION_MARKER_COOKIE,
+  ].forEach((name) => response.cookies.set(name, "", { path: "/", maxAge: 0 }));
+};
+
+// Call the backend API directly, with the user's token when there is one
+export const fetchBackend = (
+  path: string,
+  init: RequestInit = {},
+  token?: string
+) => {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  return fetch(`${API_URL}${path}`, { ...init, headers, cache: "no-store" });
+};
+
+// Ask the API who the session's token belongs to; null when there is no
+// session, it has expired or the API rejects the token
+export const fetchSessionUserId = async (
+  request: NextRequest
+): Promise<string | null> => {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  if (!token || isSessionExpired(getSessionPolicy(request))) {
+    return null;
+  }
+
+  try {
+    const response = await fetchBackend("/api/v1/user/user-info", {}, token);
+    if (!response.ok) {
+      return null;
+    }
+    const { data } = await response.json();
+    return data?.user_id || data?.id || data?._id || null;
+  } catch (error) {
+    console.error("Error checking the session:", error);
+    return null;
+  }
+};
+
+// Parse a backend reply, falling back to the usual envelope when it isn't JSON
+export const readBackendJson = async (response: Response) => {
+  try {
+    return await response.json();
+  } catch (error) {
+    return { success: false, message: "Unexpected response from the server" };
+  }
+};
@@ -0,0 +1,21 @@
+// utils/sessionLifetime.ts
+// How long a session lasts, chosen at sign-in with "Remember me"
+
+// remember: persistent cookies for a personal device
+// short: browser-session cookies, also capped in time, for shared devices
+export type SessionMode = "remember" | "short";
+
+export const REMEMBER_ME_DAYS =
+  Number(process.env.NEXT_PUBLIC_REMEMBER_ME_DAYS) || 30;
+
+export const SHORT_SESSION_HOURS =
+  Number(process.env.NEXT_PUBLIC_SHORT_SESSION_HOURS) || 12;
+
+// In seconds, counted from sign-in; refreshing doesn't extend it
+export const SESSION_LIFETIMES: { [mode in SessionMode]: number } = {
+  remember: REMEMBER_ME_DAYS * 24 * 60 * 60,
+  short: SHORT_SESSION_HOURS * 60 * 60,
+};
+
+export const getSessionMode = (rememberMe: boolean): SessionMode =>
+  rememberMe ? "remember" : "short";
@@ -0,0 +1,59 @@
+// utils/sms.ts
+// Server-only SMS providers; pick one with SMS_PROVIDER
+
+export interface SmsProvider {
+  name: string;
+  // to is E.164, e.g. +2348012345678
+  send: (to: string, message: string) => Promise<void>;
+}
+
+// Prints messages to the server log so codes can be read during development
+export const consoleSmsProvider: SmsProvider = {
+  name: "console",
+
+  send: async (to, message) => {
+    console.info(`[sms] to ${to}: ${message}`);
+  },
+};
+
+// Termii (https://developers.termii.com), which covers Nigerian networks
+export const termiiSmsProvider: SmsProvider = {
+  name: "termii",
+
+  send: async (to, message) => {
+    const response = await fetch(
+      `${process.env.TERMII_BASE_URL || "https://api.ng.termii.com"}/api/sms/send`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          api_key: process.env.TERMII_API_KEY,
+          from: process.env.TERMII_SENDER_ID,
+          // Termii wants the number without the "+"
+          to: to.replace(/^\+/, ""),
+          sms: message,
+          type: "plain",
+          channel: "generic",
+        }),
+        cache: "no-store",
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Termii rejected the message: ${response.status}`);
+    }
+  },
+};
+
+const SMS_PROVIDERS: { [name: string]: SmsProvider } = {
+  [consoleSmsProvider.name]: consoleSmsProvider,
+  [termiiSmsProvider.name]: termiiSmsProvider,
+};
+
+// Development never sends real messages unless asked to
+export const DEFAULT_SMS_PROVIDER =
+  process.env.SMS_PROVIDER ||
+  (process.env.NODE_ENV === "development" ? "console" : "termii");
+
+export const getSmsProvider = (
+  name: string = DEFAULT_SMS_PROVIDER
+): SmsProvider => SMS_PROVIDERS[name] || SMS_PROVIDERS[DEFAULT_SMS_PROVIDER];
@@ -1,55 +1,47 @@
 // utils/tokenService.js
-import { httpClient } from "./httpClient";
+import Cookies from "js-cookie";
+import api from "../services/api";
+import { AUTH_EVENTS, broadcastAuthEvent } from "./authSync";
 
-export const TokenService = {
-  // Save token to cookie
-  saveToken: (token) => {
-    if (typeof window !== "undefined") {
-      const cookieExpiry = 24 * 60 * 60; // 24 hours
-      document.cookie = `auth_token=${token}; max-age=${cookieExpiry}; path=/; ${
-        process.env.NODE_ENV !== "development" ? "secure; " : ""
-      }samesite=strict`;
-    }
-  },
+// Profile of the signed-in user. Kept in memory only, so a script injected
+// into the page can't read it back from storage.
+let currentUser = null;
 
-  // Get token from cookie
-  getToken: () => {
-    if (typeof window !== "undefined") {
-      const cookies = document.cookie.split(";");
-      const authCookie = cookies.find((cookie) =>
-        cookie.trim().startsWith("auth_token=")
-      );
-      return authCookie ? authCookie.split("=")[1] : null;
-    }
+// The API returns the user's id as user_id, id or _id depending on the
+// endpoint; everything in the app reads user_id
+export const normalizeUser = (userData) => {
+  if (!userData) {
     return null;
-  },
+  }
 
-  // Remove token from cookie
-  removeToken: () => {
-    if (typeof window !== "undefined") {
-      document.cookie =
-        "auth_token=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;";
-    }
+  return {
+    ...userData,
+    user_id: userData.user_id || userData.id || userData._id,
+  };
+};
+
+// The tokens are httpOnly cookies set by app/api/auth; the browser only sees
+// the signed_in marker that comes with them
+export const TokenService = {
+  // Whether the server has set up a session
+  hasSession: () => !!Cookies.get("signed_in"),
+
+  // Forget the marker locally; the server clears the real cookies (endSession)
+  removeSession: () => {
+    Cookies.remove("signed_in", { path: "/" });
   },
 
-  // Save user data to localStorage
+  // Save user data in memory
   saveUserData: (userData) => {
-    if (typeof window !== "undefined") {
-      localStorage.setItem("user_data", JSON.stringify(userData));
-    }
+    currentUser = normalizeUser(userData);
   },
 
-  // Get user data from localStorage
-  getUserData: () => {
-    if (typeof window !== "undefined") {
-      const userData = localStorage.getItem("user_data");
-      return userData ? JSON.parse(userData) : null;
-    }
-    return null;
-  },
+  // Get user data from memory
+  getUserData: () => currentUser,
 
-  // Remove user data from localStorage
+  // Remove user data, including the copy older builds kept in localStorage
   removeUserData: () => {
+    currentUser = null;
     if (typeof window !== "undefined") {
       localStorage.removeItem("user_data");
     }
@@ -57,18 +49,27 @@ export const TokenService = {
 
   // Clear all stored data
   clearAll: () => {
-    TokenService.removeToken();
+    TokenService.removeSession();
     TokenService.removeUserData();
   },
 };
 
-// Check if user is authenticated
-export const isAuthenticated = () => {
-  const token = TokenService.getToken();
-  return !!token;
+// Check if user is authenticated; an expired access token is renewed by
+// httpClient, so the marker is enough
+export const isAuthenticated = () => TokenService.hasSession();
+
+// Sign out on the server, which clears the httpOnly cookies, then locally
+export const endSession = async () => {
+  try {
+    await api.auth.logout();
+  } catch (error) {
+    console.error("Error ending session:", error);
+  }
+  TokenService.clearAll();
+  broadcastAuthEvent(AUTH_EVENTS.LOGOUT);
 };
 
-// Get current user from localStorage
+// Get current user
 export const getCurrentUser = () => {
   return TokenService.getUserData();
 };
@@ -80,23 +81,22 @@ export const fetchUserData = async () => {
       return null;
     }
 
-    const response = await httpClient.get("/api/v1/user/user-info");
+    const response = await api.user.getInfo();
 
-    if (response.data.success) {
+    if (response.success) {
       // Update stored user data with fresh data
-      TokenService.saveUserData(response.data.data);
-      return response.data;
+      const userData = normalizeUser(response.data);
+      TokenService.saveUserData(userData);
+      return { ...response, data: userData };
     } else {
-      // If API call fails, clear stored data
-      TokenService.clearAll();
+      // If API call fails, end the session
+      await endSession();
       return null;
     }
   } catch (error) {
     console.error("Error fetching user data:", error);
-    // If unauthorized or network error, clear stored data
-    if (error.response?.status === 401) {
-      TokenService.clearAll();
-    }
+    // Rejected sessions are ended by httpClient; keep the session on
+    // network errors
     return null;
   }
 };
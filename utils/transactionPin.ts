@@ -0,0 +1,67 @@
+// utils/transactionPin.ts
+// Rules for the 4-digit transaction PIN that confirms payments, and the
+// lockout the API reports after too many wrong ones
+import { PinAttemptStatus } from "../services/apiTypes";
+
+export const PIN_LENGTH = 4;
+
+// Too easy to guess for something that approves payments
+const WEAK_PINS = ["1234", "4321", "0000", "1212", "2580", "1004"];
+
+export const sanitizePinInput = (value: string) =>
+  value.replace(/\D/g, "").slice(0, PIN_LENGTH);
+
+// Why a new PIN can't be used, or null when it's fine
+export const getPinProblem = (pin: string) => {
+  if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+    return `Your PIN must be ${PIN_LENGTH} digits.`;
+  }
+  if (/^(\d)\1+$/.test(pin) || WEAK_PINS.includes(pin)) {
+    return "That PIN is too easy to guess. Please choose another.";
+  }
+  return null;
+};
+
+const lockoutKey = (userId: string) => `pin_lockout_${userId}`;
+
+// The API counts wrong PINs and refuses them during a lockout. This only
+// remembers the lockout it reported, so the dialog can say so without another
+// attempt; clearing it just hides the notice until the API refuses again.
+export const PinAttemptStore = {
+  // When the lockout ends, or null when PIN entry is allowed
+  getLockedUntil: (userId: string) => {
+    if (typeof window === "undefined") {
+      return null;
+    }
+
+    const lockedUntil = Number(localStorage.getItem(lockoutKey(userId)));
+    if (!lockedUntil) {
+      return null;
+    }
+    if (lockedUntil <= Date.now()) {
+      PinAttemptStore.reset(userId);
+      return null;
+    }
+    return lockedUntil;
+  },
+
+  // Keep the lockout from a refused PIN, if the API sent one
+  recordRejection: (userId: string, status?: PinAttemptStatus) => {
+    const lockedUntil = status?.lockedUntil
+      ? new Date(status.lockedUntil).getTime()
+      : null;
+    if (lockedUntil && lockedUntil > Date.now()) {
+      localStorage.setItem(lockoutKey(userId), String(lockedUntil));
+      return lockedUntil;
+    }
+
+    PinAttemptStore.reset(userId);
+    return null;
+  },
+
+  reset: (userId: string) => {
+    if (typeof window !== "undefined") {
+      localStorage.removeItem(lockoutKey(userId));
+    }
+  },
+};
@@ -0,0 +1,159 @@
+// utils/verificationCode.ts
+// Expiry, resend cooldown and attempt limits for the codes we send: the
+// sign-up verification code, the password-reset PIN, the phone SMS code and
+// the code confirming a new email address
+import { CodeDeliveryResponse } from "../services/apiTypes";
+
+export type CodePurpose =
+  "verify-email" | "reset-password" | "verify-phone" | "change-email";
+
+// How long a code lasts when the API doesn't say
+export const CODE_TTL_MS = 5 * 60 * 1000;
+
+// Wait between resends, unless the API asks for longer
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Resends allowed per window
+export const MAX_RESENDS = 5;
+export const RESEND_WINDOW_MS = 60 * 60 * 1000;
+
+// Wrong entries allowed before a new code is needed
+export const MAX_CODE_ATTEMPTS = 5;
+
+interface CodeState {
+  // Epoch milliseconds
+  expiresAt: number;
+  resendAvailableAt: number;
+  sentAt: number[];
+  failures: number;
+}
+
+export interface CodeStatus {
+  secondsToExpiry: number;
+  secondsToResend: number;
+  attemptsLeft: number;
+  isExpired: boolean;
+  isLocked: boolean;
+}
+
+const stateKey = (purpose: CodePurpose, email: string) =>
+  `code_${purpose}_${email.toLowerCase()}`;
+
+const readState = (purpose: CodePurpose, email: string): CodeState | null => {
+  try {
+    return JSON.parse(localStorage.getItem(stateKey(purpose, email)));
+  } catch (error) {
+    return null;
+  }
+};
+
+const getCooldown = (retryAfterSeconds?: number) =>
+  Math.max((retryAfterSeconds || 0) * 1000, RESEND_COOLDOWN_MS);
+
+const writeState = (purpose: CodePurpose, email: string, state: CodeState) => {
+  localStorage.setItem(stateKey(purpose, email), JSON.stringify(state));
+  return state;
+};
+
+// Kept per address (or phone number) in localStorage, so reloading the page
+// doesn't reset the limits. The API enforces its own; these spare it the
+// requests.
+export const VerificationCodeStore = {
+  get: (purpose: CodePurpose, email: string) =>
+    typeof window === "undefined" ? null : readState(purpose, email),
+
+  // A code was just sent; the API's expiry and retry time win when given
+  recordSent: (
+    purpose: CodePurpose,
+    email: string,
+    delivery?: CodeDeliveryResponse
+  ) => {
+    const now = Date.now();
+    const sentAt = [
+      ...(readState(purpose, email)?.sentAt || []).filter(
+        (time) => now - time < RESEND_WINDOW_MS
+      ),
+      now,
+    ];
+
+    let resendAvailableAt = now + getCooldown(delivery?.retryAfterSeconds);
+    if (sentAt.length >= MAX_RESENDS) {
+      resendAvailableAt = Math.max(
+        resendAvailableAt,
+        sentAt[sentAt.length - MAX_RESENDS] + RESEND_WINDOW_MS
+      );
+    }
+
+    return writeState(purpose, email, {
+      expiresAt: delivery?.expiresAt
+        ? new Date(delivery.expiresAt).getTime()
+        : now + CODE_TTL_MS,
+      resendAvailableAt,
+      sentAt,
+      failures: 0,
+    });
+  },
+
+  // Codes sent before this page tracked them start counting now
+  ensure: (purpose: CodePurpose, email: string) =>
+    VerificationCodeStore.get(purpose, email) ||
+    VerificationCodeStore.recordSent(purpose, email),
+
+  // The API refused a resend (429)
+  recordRateLimited: (
+    purpose: CodePurpose,
+    email: string,
+    retryAfterSeconds?: number
+  ) => {
+    const state = VerificationCodeStore.ensure(purpose, email);
+    return writeState(purpose, email, {
+      ...state,
+      resendAvailableAt: Date.now() + getCooldown(retryAfterSeconds),
+    });
+  },
+
+  recordFailure: (purpose: CodePurpose, email: string) => {
+    const state = VerificationCodeStore.ensure(purpose, email);
+    return writeState(purpose, email, {
+      ...state,
+      failures: state.failures + 1,
+    });
+  },
+
+  clear: (purpose: CodePurpose, email: string) => {
+    if (typeof window !== "undefined") {
+      localStorage.removeItem(stateKey(purpose, email));
+    }
+  },
+};
+
+export const getCodeStatus = (
+  state: CodeState | null,
+  now = Date.now()
+): CodeStatus => {
+  const secondsUntil = (time: number) =>
+    Math.max(0, Math.ceil((time - now) / 1000));
+
+  if (!state) {
+    return {
+      secondsToExpiry: 0,
+      secondsToResend: 0,
+      attemptsLeft: MAX_CODE_ATTEMPTS,
+      isExpired: false,
+      isLocked: false,
+    };
+  }
+
+  const attemptsLeft = Math.max(0, MAX_CODE_ATTEMPTS - state.failures);
+  return {
+    secondsToExpiry: secondsUntil(state.expiresAt),
+    secondsToResend: secondsUntil(state.resendAvailableAt),
+    attemptsLeft,
+    isExpired: state.expiresAt <= now,
+    isLocked: attemptsLeft === 0,
+  };
+};
+
+// m:ss, as shown next to the code inputs
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;